@@ -1,16 +1,32 @@
 import { serve } from "bun";
 import { GoogleSheetsService } from "./src/sheets/service";
 import { router } from "./src/sheets/router";
+import { withAuth } from "./src/auth/middleware";
+import { AuthService } from "./src/auth/service";
+import { WatchService } from "./src/sheets/watch";
+import { routeDefinitions } from "./src/sheets/routes";
 
 const sheetsService = GoogleSheetsService.getInstance();
 await sheetsService.warmup();
+WatchService.getInstance().start();
+
+if (!AuthService.getInstance().enabled) {
+  console.warn(
+    "⚠️  No auth config found (AUTH_CONFIG_PATH). All requests are allowed."
+  );
+}
+
+const handler = withAuth(
+  router,
+  routeDefinitions.filter((route) => route.public)
+);
 
 const server = serve({
   port: process.env.PORT || 8000,
   async fetch(req) {
     const url = new URL(req.url);
 
-    const response = await router(req, url);
+    const response = await handler(req, url);
     return response;
   },
 });
@@ -0,0 +1,107 @@
+import { createHmac, createVerify, timingSafeEqual } from "node:crypto";
+import { UnauthorizedException } from "../common/exceptions";
+
+export type JwtAlgorithm = "HS256" | "RS256";
+
+export type JwtKey = {
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  // HS256 shared secret
+  secret?: string;
+  // RS256 PEM-encoded public key
+  publicKey?: string;
+};
+
+export type JwtVerifyOptions = {
+  issuer?: string;
+  audience?: string;
+  clockToleranceSec?: number;
+};
+
+const decodeSegment = (segment: string): any => {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+  } catch {
+    throw new UnauthorizedException("Malformed token");
+  }
+};
+
+export function looksLikeJwt(token: string): boolean {
+  return token.split(".").length === 3;
+}
+
+// Verifies a compact JWS and its registered claims, returning the payload.
+// Only HS256 and RS256 are accepted; "none" and algorithm switching between
+// a key's configured algorithm and the header are rejected.
+export function verifyJwt(
+  token: string,
+  keys: JwtKey[],
+  options: JwtVerifyOptions = {}
+): Record<string, any> {
+  const [headerSeg, payloadSeg, signatureSeg] = token.split(".");
+  if (!headerSeg || !payloadSeg || !signatureSeg) {
+    throw new UnauthorizedException("Malformed token");
+  }
+
+  const header = decodeSegment(headerSeg);
+  const payload = decodeSegment(payloadSeg);
+  const signature = Buffer.from(signatureSeg, "base64url");
+  const signingInput = `${headerSeg}.${payloadSeg}`;
+
+  const candidates = keys.filter(
+    (key) =>
+      key.algorithm === header?.alg &&
+      (header?.kid === undefined ||
+        key.kid === undefined ||
+        key.kid === header.kid)
+  );
+  if (candidates.length === 0) {
+    throw new UnauthorizedException("Unsupported token algorithm or key");
+  }
+
+  const valid = candidates.some((key) => {
+    if (key.algorithm === "HS256" && key.secret) {
+      const expected = createHmac("sha256", key.secret)
+        .update(signingInput)
+        .digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+    if (key.algorithm === "RS256" && key.publicKey) {
+      try {
+        return createVerify("RSA-SHA256")
+          .update(signingInput)
+          .verify(key.publicKey, signature);
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  });
+
+  if (!valid) {
+    throw new UnauthorizedException("Invalid token signature");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 30;
+  if (typeof payload.exp === "number" && now - tolerance >= payload.exp) {
+    throw new UnauthorizedException("Token has expired");
+  }
+  if (typeof payload.nbf === "number" && now + tolerance < payload.nbf) {
+    throw new UnauthorizedException("Token is not yet valid");
+  }
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new UnauthorizedException("Unexpected token issuer");
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new UnauthorizedException("Unexpected token audience");
+    }
+  }
+
+  return payload;
+}
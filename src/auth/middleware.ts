@@ -0,0 +1,39 @@
+import type { RouteDefinition } from "../types";
+import { jsonResponse, matchRoute } from "../utils/index";
+import { AuthService } from "./service";
+
+type Handler = (req: Request, url: URL) => Promise<Response>;
+
+const authService = AuthService.getInstance();
+
+// Rejects unauthenticated requests with 401 before they reach the router.
+// Per-route authorization happens in the router, where the spreadsheet,
+// sheet and operation are known. Routes in `publicRoutes` skip the check.
+export function withAuth(
+  handler: Handler,
+  publicRoutes: RouteDefinition[] = []
+): Handler {
+  return async (req, url) => {
+    if (
+      req.method === "OPTIONS" ||
+      publicRoutes.some((route) => matchRoute(route, req, url))
+    ) {
+      return handler(req, url);
+    }
+
+    try {
+      authService.authenticate(req);
+    } catch (error: any) {
+      const status = error?.status ?? 401;
+      return jsonResponse(
+        { message: error?.message ?? "Unauthorized", status },
+        {
+          status,
+          headers: { "WWW-Authenticate": 'Bearer realm="gsheet-bun"' },
+        }
+      );
+    }
+
+    return handler(req, url);
+  };
+}
@@ -0,0 +1,255 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import {
+  ForbiddenException,
+  UnauthorizedException,
+} from "../common/exceptions";
+import {
+  looksLikeJwt,
+  verifyJwt,
+  type JwtKey,
+  type JwtVerifyOptions,
+} from "./jwt";
+
+export type Operation = "read" | "create" | "update" | "delete";
+
+// "*" in any list matches everything. All three lists are required, so a
+// grant never covers more than it spells out.
+export type Grant = {
+  spreadsheets: string[];
+  sheets: string[];
+  operations: (Operation | "*")[];
+};
+
+export type ApiKeyConfig = {
+  id: string;
+  // Either the key itself or "sha256:<hex digest>" of it.
+  key?: string;
+  keyHash?: string;
+  grants: Grant[];
+};
+
+export type AuthConfig = {
+  apiKeys?: ApiKeyConfig[];
+  jwt?: JwtVerifyOptions & {
+    keys: JwtKey[];
+    // Used when a token carries no `grants` claim of its own.
+    defaultGrants?: Grant[];
+  };
+};
+
+export type Principal = {
+  id: string;
+  kind: "api_key" | "jwt" | "anonymous";
+  grants: Grant[];
+};
+
+const OPERATIONS: Operation[] = ["read", "create", "update", "delete"];
+
+const isStringList = (value: any): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => typeof item === "string");
+
+// Rejects grants that leave a list out; used for the config file and for
+// grants carried by JWTs.
+function checkGrants(grants: any, owner: string): void {
+  if (!Array.isArray(grants)) {
+    throw new Error(`${owner}: grants must be an array`);
+  }
+  for (const grant of grants) {
+    for (const list of ["spreadsheets", "sheets", "operations"]) {
+      if (!isStringList(grant?.[list])) {
+        throw new Error(
+          `${owner}: grant.${list} must be a non-empty array (use ["*"] for all)`
+        );
+      }
+    }
+    for (const op of grant.operations) {
+      if (op !== "*" && !OPERATIONS.includes(op)) {
+        throw new Error(`${owner}: unknown operation "${op}"`);
+      }
+    }
+  }
+}
+
+const sha256 = (value: string): Buffer =>
+  createHash("sha256").update(value).digest();
+
+export class AuthService {
+  private static instance: AuthService;
+  private config: AuthConfig | null;
+  // Principals resolved by authenticate(), looked up again by authorize().
+  private principals = new WeakMap<Request, Principal>();
+
+  private constructor(configPath?: string) {
+    this.config = this.loadConfig(configPath);
+  }
+
+  static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService(process.env.AUTH_CONFIG_PATH);
+    }
+    return AuthService.instance;
+  }
+
+  get enabled(): boolean {
+    return this.config !== null;
+  }
+
+  private loadConfig(configPath = "auth.config.json"): AuthConfig | null {
+    if (!existsSync(configPath)) {
+      if (process.env.AUTH_CONFIG_PATH) {
+        throw new Error(`Auth config not found at ${configPath}`);
+      }
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+      this.validateConfig(parsed);
+      return parsed as AuthConfig;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to load auth config from ${configPath}: ${error?.message}`
+      );
+    }
+  }
+
+  private validateConfig(config: any): void {
+    for (const apiKey of config?.apiKeys ?? []) {
+      if (!apiKey?.id || (!apiKey.key && !apiKey.keyHash)) {
+        throw new Error("apiKeys entries need an id and a key or keyHash");
+      }
+      checkGrants(apiKey.grants, `apiKeys[${apiKey.id}]`);
+    }
+
+    if (config?.jwt) {
+      for (const key of config.jwt.keys ?? []) {
+        if (key?.algorithm === "HS256" && !key.secret) {
+          throw new Error("jwt.keys: HS256 keys need a secret");
+        }
+        if (key?.algorithm === "RS256" && !key.publicKey) {
+          throw new Error("jwt.keys: RS256 keys need a publicKey");
+        }
+        if (key?.algorithm !== "HS256" && key?.algorithm !== "RS256") {
+          throw new Error(
+            `jwt.keys: unsupported algorithm "${key?.algorithm}"`
+          );
+        }
+      }
+      if (config.jwt.defaultGrants) {
+        checkGrants(config.jwt.defaultGrants, "jwt.defaultGrants");
+      }
+    }
+  }
+
+  private extractCredential(req: Request): string | null {
+    const apiKey = req.headers.get("x-api-key");
+    if (apiKey) return apiKey.trim();
+
+    const authorization = req.headers.get("authorization");
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1]?.trim() ?? null;
+  }
+
+  private matchApiKey(credential: string): ApiKeyConfig | undefined {
+    const presented = sha256(credential);
+    return this.config?.apiKeys?.find((entry) => {
+      const expected = entry.keyHash
+        ? Buffer.from(entry.keyHash.replace(/^sha256:/, ""), "hex")
+        : sha256(entry.key ?? "");
+      return (
+        expected.length === presented.length &&
+        timingSafeEqual(expected, presented)
+      );
+    });
+  }
+
+  // Resolves the caller from `X-API-Key` or `Authorization: Bearer <key|jwt>`.
+  // With no auth config every request is an anonymous principal with full
+  // access.
+  authenticate(req: Request): Principal {
+    if (!this.config) {
+      const principal: Principal = {
+        id: "anonymous",
+        kind: "anonymous",
+        grants: [{ spreadsheets: ["*"], sheets: ["*"], operations: ["*"] }],
+      };
+      this.principals.set(req, principal);
+      return principal;
+    }
+
+    const credential = this.extractCredential(req);
+    if (!credential) {
+      throw new UnauthorizedException("Missing API key or bearer token");
+    }
+
+    let principal: Principal;
+    const apiKey = this.matchApiKey(credential);
+    if (apiKey) {
+      principal = { id: apiKey.id, kind: "api_key", grants: apiKey.grants };
+    } else if (this.config.jwt && looksLikeJwt(credential)) {
+      const { keys, defaultGrants, ...options } = this.config.jwt;
+      const claims = verifyJwt(credential, keys, options);
+      if (claims.grants !== undefined) {
+        try {
+          checkGrants(claims.grants, "token");
+        } catch (error: any) {
+          throw new UnauthorizedException(error.message);
+        }
+      }
+      principal = {
+        id: String(claims.sub ?? "jwt"),
+        kind: "jwt",
+        grants: claims.grants ?? defaultGrants ?? [],
+      };
+    } else {
+      throw new UnauthorizedException("Invalid API key or bearer token");
+    }
+
+    this.principals.set(req, principal);
+    return principal;
+  }
+
+  // True when one of the caller's grants covers the spreadsheet, sheet and
+  // every requested operation.
+  can(
+    req: Request,
+    spreadsheetId: string,
+    sheetName: string | null,
+    operations: Operation | Operation[]
+  ): boolean {
+    const principal = this.principals.get(req) ?? this.authenticate(req);
+    const required = Array.isArray(operations) ? operations : [operations];
+    // A null sheet means the whole spreadsheet, which only "*" covers.
+    const covers = (list: string[], value: string | null) =>
+      list.includes("*") || (value !== null && list.includes(value));
+
+    return required.every((op) =>
+      principal.grants.some(
+        (grant) =>
+          covers(grant.spreadsheets, spreadsheetId) &&
+          covers(grant.sheets, sheetName) &&
+          covers(grant.operations, op)
+      )
+    );
+  }
+
+  // Throws 403 unless can() allows the request.
+  authorize(
+    req: Request,
+    spreadsheetId: string,
+    sheetName: string | null,
+    operations: Operation | Operation[]
+  ): void {
+    const required = Array.isArray(operations) ? operations : [operations];
+    if (!this.can(req, spreadsheetId, sheetName, required)) {
+      throw new ForbiddenException(
+        `Not allowed to ${required.join("/")} ${spreadsheetId}${
+          sheetName ? `/${sheetName}` : ""
+        }`
+      );
+    }
+  }
+}
@@ -35,8 +35,75 @@ export class ForbiddenException extends HttpException {
   }
 }
 
+export class ConflictException extends HttpException {
+  constructor(message: string = "Conflict") {
+    super({ statusCode: 409, message }, 409);
+  }
+}
+
+export class PreconditionFailedException extends HttpException {
+  constructor(message: string = "Precondition Failed") {
+    super({ statusCode: 412, message }, 412);
+  }
+}
+
+export class ServiceUnavailableException extends HttpException {
+  // Seconds the client should wait before retrying, sent as `Retry-After`.
+  public readonly retryAfter?: number;
+
+  constructor(message: string = "Service Unavailable", retryAfter?: number) {
+    super({ statusCode: 503, message }, 503);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class GatewayTimeoutException extends HttpException {
+  constructor(message: string = "Gateway Timeout") {
+    super({ statusCode: 504, message }, 504);
+  }
+}
+
 export class InternalServerErrorException extends HttpException {
   constructor(message: string = "Internal Server Error") {
     super({ statusCode: 500, message }, 500);
   }
 }
+
+export type FieldError = {
+  // Set for bulk writes: index of the offending row in the request body.
+  row?: number;
+  field: string;
+  rule: string;
+  message: string;
+};
+
+export class ValidationException extends HttpException {
+  public readonly errors: FieldError[];
+
+  constructor(errors: FieldError[], message: string = "Validation failed") {
+    super({ statusCode: 400, message, errors }, 400);
+    this.errors = errors;
+  }
+}
+
+export type QueryError = {
+  // 1-based character offset into the query text.
+  position: number;
+  message: string;
+};
+
+export class QuerySyntaxException extends HttpException {
+  public readonly errors: QueryError[];
+
+  constructor(message: string, position: number) {
+    super(
+      {
+        statusCode: 400,
+        message: `${message} at position ${position}`,
+        position,
+      },
+      400
+    );
+    this.errors = [{ position, message }];
+  }
+}
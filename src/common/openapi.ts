@@ -0,0 +1,142 @@
+import { SUCCESS_CODES } from "../constants";
+import type { RouteDefinition } from "../types";
+import { ref, schemaComponents, type JsonSchema } from "./schema";
+
+type Info = { title: string; version: string; description?: string };
+
+const content = (contentTypes: string[], schema?: JsonSchema) =>
+  Object.fromEntries(
+    contentTypes.map((type) => [type, schema ? { schema } : {}])
+  );
+
+// "/api/:spreadsheetId" -> "/api/{spreadsheetId}"
+const toOpenApiPath = (path: string) => path.replace(/:([^/]+)/g, "{$1}");
+
+function operation(definition: RouteDefinition): Record<string, any> {
+  const pathParams = [...definition.path.matchAll(/:([^/]+)/g)].map(
+    ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      ...(definition.params?.[name!]?.description
+        ? { description: definition.params[name!]!.description }
+        : {}),
+      schema: definition.params?.[name!]?.schema ?? { type: "string" },
+    })
+  );
+  const queryParams = Object.entries(definition.query ?? {}).map(
+    ([name, parameter]) => ({
+      name,
+      in: "query",
+      required: parameter.required ?? false,
+      ...(parameter.description ? { description: parameter.description } : {}),
+      // JSON-valued parameters are described by their decoded content.
+      ...(parameter.json
+        ? { content: content(["application/json"], parameter.schema) }
+        : { schema: parameter.schema }),
+    })
+  );
+
+  const responses: Record<string, any> = {};
+  const declared = definition.responses ?? {
+    [SUCCESS_CODES[definition.method]]: { description: "Success" },
+  };
+  for (const [status, response] of Object.entries(declared)) {
+    const types = response.contentTypes ?? ["application/json"];
+    responses[status] = {
+      description: response.description,
+      ...(Number(status) === 204 || Number(status) === 304
+        ? {}
+        : { content: content(types, response.schema) }),
+    };
+  }
+  responses.default = {
+    description: "Error",
+    content: content(["application/json"], ref("Error")),
+  };
+
+  return {
+    operationId: definition.operationId,
+    summary: definition.summary,
+    ...(definition.description ? { description: definition.description } : {}),
+    tags: definition.tags,
+    ...(pathParams.length || queryParams.length
+      ? { parameters: [...pathParams, ...queryParams] }
+      : {}),
+    ...(definition.body
+      ? {
+          requestBody: {
+            required: definition.body.required ?? false,
+            ...(definition.body.description
+              ? { description: definition.body.description }
+              : {}),
+            content: content(
+              definition.body.contentTypes ?? ["application/json"],
+              definition.body.schema
+            ),
+          },
+        }
+      : {}),
+    ...(definition.public ? { security: [] } : {}),
+    responses,
+  };
+}
+
+// OpenAPI 3.1 document for the given routes. Every operation accepts an API
+// key or a bearer token unless it is marked public; with no auth config the
+// server ignores both.
+export function buildOpenApiDocument(
+  definitions: RouteDefinition[],
+  info: Info
+): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+  for (const definition of definitions) {
+    const path = toOpenApiPath(definition.path);
+    paths[path] ??= {};
+    paths[path]![definition.method.toLowerCase()] = operation(definition);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      schemas: schemaComponents(),
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+    },
+    security: [{ apiKey: [] }, { bearer: [] }],
+  };
+}
+
+// The viewer's assets, pinned to one release and checked by the browser
+// against these hashes. Update all three together.
+const SWAGGER_UI = "https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.0";
+const SWAGGER_UI_CSS_SRI =
+  "sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW";
+const SWAGGER_UI_JS_SRI =
+  "sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf";
+
+// Swagger UI pointed at the served document; the page itself only loads
+// the viewer's assets.
+export function docsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${title}</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" integrity="${SWAGGER_UI_CSS_SRI}" crossorigin="anonymous" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_JS_SRI}" crossorigin="anonymous"></script>
+    <script>
+      SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#docs" });
+    </script>
+  </body>
+</html>
+`;
+}
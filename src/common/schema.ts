@@ -0,0 +1,226 @@
+import type { FieldError } from "./exceptions";
+
+export type JsonType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+// The subset of JSON Schema (2020-12, as used by OpenAPI 3.1) that route
+// definitions use. Keywords outside it are passed through to the document
+// but not enforced.
+export type JsonSchema = {
+  $ref?: string;
+  type?: JsonType | JsonType[];
+  title?: string;
+  description?: string;
+  format?: string;
+  default?: any;
+  examples?: any[];
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+};
+
+// Named schemas, served under `components.schemas` and resolved by `$ref`.
+const components = new Map<string, JsonSchema>();
+
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+// Registers a reusable schema and returns a reference to it. Schemas may
+// refer to themselves (or ones defined later) through ref().
+export function defineSchema(name: string, schema: JsonSchema): JsonSchema {
+  components.set(name, schema);
+  return ref(name);
+}
+
+export function schemaComponents(): Record<string, JsonSchema> {
+  return Object.fromEntries(components);
+}
+
+function resolve(schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace("#/components/schemas/", "");
+  const target = components.get(name);
+  if (!target) {
+    throw new Error(`Unknown schema reference ${schema.$ref}`);
+  }
+  return resolve(target);
+}
+
+function typeOf(value: any): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+function matchesType(value: any, type: JsonType | JsonType[]): boolean {
+  const actual = typeOf(value);
+  const allowed = Array.isArray(type) ? type : [type];
+  return (
+    allowed.includes(actual) ||
+    (actual === "integer" && allowed.includes("number"))
+  );
+}
+
+const describe = (type: JsonType | JsonType[]) =>
+  Array.isArray(type) ? type.join(" or ") : type;
+
+const format = (value: any) =>
+  typeof value === "string" ? `"${value}"` : String(value);
+
+// Checks `value` against `schema` and returns one error per violation,
+// each naming the path of the offending value (e.g. `body.where.and[1]`).
+export function validateSchema(
+  schema: JsonSchema,
+  value: any,
+  path: string
+): FieldError[] {
+  const resolved = resolve(schema);
+  const error = (rule: string, message: string): FieldError[] => [
+    { field: path, rule, message: `${path} ${message}` },
+  ];
+
+  if (resolved.anyOf) {
+    const branches = resolved.anyOf.map((branch) =>
+      validateSchema(branch, value, path)
+    );
+    if (branches.some((errors) => errors.length === 0)) return [];
+    // When only one branch accepts the value's type, its errors are the
+    // useful ones; otherwise name the mismatch as a whole.
+    const candidates = resolved.anyOf.filter((branch) => {
+      const type = resolve(branch).type;
+      return type === undefined || matchesType(value, type);
+    });
+    if (candidates.length === 1) {
+      return branches[resolved.anyOf.indexOf(candidates[0]!)]!;
+    }
+    return error("anyOf", "does not match any of the allowed shapes");
+  }
+
+  if (resolved.type !== undefined && !matchesType(value, resolved.type)) {
+    return error("type", `must be of type ${describe(resolved.type)}`);
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    return error(
+      "enum",
+      `must be one of ${resolved.enum.map(format).join(", ")}`
+    );
+  }
+
+  if (typeof value === "number") {
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      return error("minimum", `must be at least ${resolved.minimum}`);
+    }
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      return error("maximum", `must be at most ${resolved.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+      return resolved.minLength === 1
+        ? error("minLength", "must not be empty")
+        : error(
+            "minLength",
+            `must be at least ${resolved.minLength} characters`
+          );
+    }
+    if (resolved.maxLength !== undefined && value.length > resolved.maxLength) {
+      return error(
+        "maxLength",
+        `must be at most ${resolved.maxLength} characters`
+      );
+    }
+    if (resolved.pattern && !new RegExp(resolved.pattern).test(value)) {
+      return error("pattern", `must match ${resolved.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+      return resolved.minItems === 1
+        ? error("minItems", "must not be empty")
+        : error("minItems", `must have at least ${resolved.minItems} items`);
+    }
+    if (resolved.maxItems !== undefined && value.length > resolved.maxItems) {
+      return error("maxItems", `must have at most ${resolved.maxItems} items`);
+    }
+    if (resolved.items) {
+      const items = resolved.items;
+      return value.flatMap((item, index) =>
+        validateSchema(items, item, `${path}[${index}]`)
+      );
+    }
+    return [];
+  }
+
+  if (typeOf(value) === "object") {
+    const keys = Object.keys(value);
+    if (
+      resolved.minProperties !== undefined &&
+      keys.length < resolved.minProperties
+    ) {
+      return resolved.minProperties === 1
+        ? error("minProperties", "must not be empty")
+        : error(
+            "minProperties",
+            `must have at least ${resolved.minProperties} properties`
+          );
+    }
+
+    const errors: FieldError[] = [];
+    for (const name of resolved.required ?? []) {
+      if (value[name] === undefined) {
+        errors.push({
+          field: `${path}.${name}`,
+          rule: "required",
+          message: `${path}.${name} is required`,
+        });
+      }
+    }
+    for (const key of keys) {
+      const property = resolved.properties?.[key];
+      if (property) {
+        errors.push(...validateSchema(property, value[key], `${path}.${key}`));
+      } else if (resolved.additionalProperties === false) {
+        errors.push({
+          field: `${path}.${key}`,
+          rule: "additionalProperties",
+          message: `${path}.${key} is not allowed`,
+        });
+      } else if (typeof resolved.additionalProperties === "object") {
+        errors.push(
+          ...validateSchema(
+            resolved.additionalProperties,
+            value[key],
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+    return errors;
+  }
+
+  return [];
+}
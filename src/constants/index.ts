@@ -2,5 +2,49 @@ export const SUCCESS_CODES = {
   GET: 200,
   POST: 201,
   PUT: 200,
+  PATCH: 200,
   DELETE: 204,
 };
+
+export const MAX_BULK_ROWS = 5000;
+
+// Google Sheets API defaults: per-minute quotas for a single service account,
+// how many calls may wait for a slot, and how long one call may take overall
+// (queueing and retries included).
+export const SHEETS_READS_PER_MINUTE = 60;
+export const SHEETS_WRITES_PER_MINUTE = 60;
+export const SHEETS_MAX_QUEUE = 200;
+export const SHEETS_REQUEST_DEADLINE_MS = 30000;
+export const SHEETS_MAX_RETRIES = 5;
+
+// Imports are written in batches of this many rows; the report lists at most
+// IMPORT_MAX_ISSUES skipped or invalid lines. An NDJSON line longer than
+// IMPORT_MAX_LINE_CHARS fails the import.
+export const IMPORT_CHUNK_ROWS = 500;
+export const IMPORT_MAX_ISSUES = 1000;
+export const IMPORT_MAX_LINE_CHARS = 1_000_000;
+
+// Rows fetched per range request when a read is streamed.
+export const STREAM_CHUNK_ROWS = 5000;
+
+// Watched tabs are polled every WATCH_INTERVAL_MS unless the watch sets its
+// own interval (never below WATCH_MIN_INTERVAL_MS). A webhook delivery is
+// attempted up to WEBHOOK_MAX_ATTEMPTS times before it is dead-lettered.
+export const WATCH_INTERVAL_MS = 30000;
+export const WATCH_MIN_INTERVAL_MS = 5000;
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Live subscriptions re-check their sheet this often (reads go through the
+// read cache) and send a keep-alive comment every LIVE_HEARTBEAT_MS, below
+// Bun's default 10s idle timeout.
+export const LIVE_POLL_INTERVAL_MS = 5000;
+export const LIVE_HEARTBEAT_MS = 5000;
+// At most LIVE_MAX_SUBSCRIBERS streams per sheet; a stream whose reader falls
+// LIVE_MAX_BUFFER_BYTES behind is closed.
+export const LIVE_MAX_SUBSCRIBERS = 100;
+export const LIVE_MAX_BUFFER_BYTES = 1024 * 1024;
+
+// Browsers and CDNs may reuse a GET read for this many seconds before
+// revalidating it with If-None-Match / If-Modified-Since.
+export const READ_MAX_AGE_SECONDS = 10;
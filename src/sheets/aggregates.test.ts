@@ -0,0 +1,30 @@
+import { expect, test } from "bun:test";
+import { AggregatesService } from "./aggregates";
+
+const aggregates = new AggregatesService();
+
+test("min and max compare by the column type", () => {
+  const rows = [{ code: "10" }, { code: "9" }];
+  const specs = [
+    { fn: "min", field: "code" },
+    { fn: "max", field: "code" },
+  ];
+
+  expect(
+    aggregates.aggregate(rows, undefined, specs, { code: "string" })
+  ).toEqual([{ min_code: "10", max_code: "9" }]);
+  expect(
+    aggregates.aggregate(rows, undefined, specs, { code: "number" })
+  ).toEqual([{ min_code: "9", max_code: "10" }]);
+});
+
+test("group keys don't collide on separators in the values", () => {
+  const rows = [
+    { a: "x|y", b: "z" },
+    { a: "x", b: "y|z" },
+  ];
+  expect(aggregates.aggregate(rows, ["a", "b"], [{ fn: "count" }])).toEqual([
+    { a: "x|y", b: "z", count: 1 },
+    { a: "x", b: "y|z", count: 1 },
+  ]);
+});
@@ -0,0 +1,163 @@
+import { BadRequestException } from "../common/exceptions";
+import { FiltersService } from "./filters";
+import type { ColumnType } from "./schema";
+
+type RowDict = Record<string, any>;
+
+export type AggregateFn =
+  | "count"
+  | "count_distinct"
+  | "sum"
+  | "avg"
+  | "min"
+  | "max"
+  | "first"
+  | "last";
+
+export type AggregateSpec = {
+  fn: AggregateFn;
+  field?: string;
+  as?: string;
+};
+
+const AGGREGATE_FNS: AggregateFn[] = [
+  "count",
+  "count_distinct",
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "first",
+  "last",
+];
+
+export class AggregatesService {
+  constructor(private filtersService: FiltersService = new FiltersService()) {}
+
+  private parseSpecs(aggregates: any): Required<AggregateSpec>[] {
+    if (aggregates === undefined) return [];
+    if (!Array.isArray(aggregates)) {
+      throw new BadRequestException("'aggregates' must be an array");
+    }
+
+    return aggregates.map((spec: any, index: number) => {
+      const fn = String(spec?.fn ?? "").toLowerCase() as AggregateFn;
+      if (!AGGREGATE_FNS.includes(fn)) {
+        throw new BadRequestException(
+          `aggregates[${index}]: unknown function "${spec?.fn}"`
+        );
+      }
+
+      const field = spec?.field ? String(spec.field) : "";
+      if (!field && fn !== "count") {
+        throw new BadRequestException(
+          `aggregates[${index}]: "${fn}" requires a field`
+        );
+      }
+
+      const as = spec?.as ? String(spec.as) : field ? `${fn}_${field}` : fn;
+      return { fn, field, as };
+    });
+  }
+
+  private groupKeys(groupBy?: string | string[]): string[] {
+    if (!groupBy) return [];
+    return Array.isArray(groupBy) ? groupBy : [groupBy];
+  }
+
+  outputHeaders(groupBy?: string | string[], aggregates?: any): string[] {
+    return [
+      ...this.groupKeys(groupBy),
+      ...this.parseSpecs(aggregates).map((spec) => spec.as),
+    ];
+  }
+
+  // Buckets rows by the groupBy columns (first-seen order) and reduces each
+  // bucket to one row holding the group values plus one column per aggregate.
+  // Without groupBy the whole input forms a single group. `types` are the
+  // column types min and max compare by.
+  aggregate(
+    rows: RowDict[],
+    groupBy?: string | string[],
+    aggregates?: any,
+    types: Record<string, ColumnType> = {}
+  ): RowDict[] {
+    const keys = this.groupKeys(groupBy);
+    const specs = this.parseSpecs(aggregates);
+
+    const groups = new Map<string, RowDict[]>();
+    if (keys.length === 0) {
+      groups.set("", rows);
+    } else {
+      for (const row of rows) {
+        const compoundKey = JSON.stringify(keys.map((k) => row[k] ?? null));
+        const bucket = groups.get(compoundKey);
+        if (bucket) {
+          bucket.push(row);
+        } else {
+          groups.set(compoundKey, [row]);
+        }
+      }
+    }
+
+    const result: RowDict[] = [];
+    for (const bucket of groups.values()) {
+      const out: RowDict = {};
+      for (const key of keys) {
+        out[key] = bucket[0]?.[key] ?? null;
+      }
+      for (const spec of specs) {
+        out[spec.as] = this.reduce(bucket, spec, types[spec.field]);
+      }
+      result.push(out);
+    }
+
+    return result;
+  }
+
+  private reduce(
+    rows: RowDict[],
+    spec: Required<AggregateSpec>,
+    type?: ColumnType
+  ): any {
+    const { fn, field } = spec;
+    if (fn === "count" && !field) return rows.length;
+
+    const present = rows
+      .map((row) => row[field])
+      .filter((value) => !this.filtersService.isNullish(value));
+
+    switch (fn) {
+      case "count":
+        return present.length;
+      case "count_distinct":
+        return new Set(present.map((value) => String(value))).size;
+      case "sum":
+      case "avg": {
+        const numbers = present
+          .map((value) => this.filtersService.toNumber(value))
+          .filter((value): value is number => value !== null);
+        const sum = numbers.reduce((acc, value) => acc + value, 0);
+        if (fn === "sum") return sum;
+        return numbers.length ? sum / numbers.length : null;
+      }
+      case "min":
+      case "max": {
+        if (!present.length) return null;
+        return present.reduce((best, value) => {
+          const cmp = this.filtersService.compareValues(
+            value,
+            best,
+            "asc",
+            type
+          );
+          return (fn === "min" ? cmp < 0 : cmp > 0) ? value : best;
+        });
+      }
+      case "first":
+        return rows.length ? rows[0]![field] : null;
+      case "last":
+        return rows.length ? rows[rows.length - 1]![field] : null;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { google } from "googleapis";
+import type { sheets_v4 } from "googleapis";
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  InternalServerErrorException,
+  NotFoundException,
+} from "../../common/exceptions";
+import { RequestScheduler, errorStatus, type QuotaKind } from "./scheduler";
+import type {
+  CellValue,
+  SheetsBackend,
+  SpreadsheetMetadata,
+  SpreadsheetRequest,
+  ValueRange,
+} from "./types";
+
+export class GoogleSheetsBackend implements SheetsBackend {
+  readonly name = "google";
+  private sheetsApi: sheets_v4.Sheets | null = null;
+  private credentials: any = null;
+
+  constructor(private scheduler = new RequestScheduler()) {}
+
+  async connect(): Promise<void> {
+    await this.getSheetsApi();
+  }
+
+  private async loadCredentials(): Promise<any> {
+    if (this.credentials) return this.credentials;
+
+    const serviceAccountB64 = process.env.GOOGLE_SERVICE_ACCOUNT_INFO_B64;
+    if (!serviceAccountB64) {
+      throw new Error(
+        "Missing GOOGLE_SERVICE_ACCOUNT_INFO_B64 environment variable"
+      );
+    }
+
+    try {
+      const serviceAccountInfo = JSON.parse(
+        Buffer.from(serviceAccountB64, "base64").toString("utf-8")
+      );
+
+      const auth = new google.auth.GoogleAuth({
+        credentials: serviceAccountInfo,
+        scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+      });
+
+      this.credentials = await auth.getClient();
+      return this.credentials;
+    } catch (error) {
+      throw new Error("Failed to parse Google service account credentials");
+    }
+  }
+
+  private async getSheetsApi(): Promise<sheets_v4.Sheets> {
+    if (this.sheetsApi) return this.sheetsApi;
+
+    const auth = await this.loadCredentials();
+    this.sheetsApi = google.sheets({ version: "v4", auth });
+    return this.sheetsApi;
+  }
+
+  // Runs one API call through the quota scheduler and turns API failures into
+  // HTTP exceptions so callers see the upstream status instead of a 500.
+  private async call<T>(
+    kind: QuotaKind,
+    request: (sheets: sheets_v4.Sheets, signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const sheets = await this.getSheetsApi();
+    try {
+      return await this.scheduler.schedule(kind, (signal) =>
+        request(sheets, signal)
+      );
+    } catch (error: any) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  private toHttpException(error: any): Error {
+    if (error instanceof HttpException) return error;
+
+    const message =
+      error?.response?.data?.error?.message ??
+      error?.message ??
+      "Google Sheets request failed";
+    switch (errorStatus(error)) {
+      case 400:
+        return new BadRequestException(message);
+      case 401:
+      case 403:
+        return new ForbiddenException(message);
+      case 404:
+        return new NotFoundException(message);
+      default:
+        return new InternalServerErrorException(message);
+    }
+  }
+
+  async getValues(
+    spreadsheetId: string,
+    range: string
+  ): Promise<CellValue[][]> {
+    const response = await this.call("read", (sheets, signal) =>
+      sheets.spreadsheets.values.get(
+        {
+          spreadsheetId,
+          range,
+          valueRenderOption: "UNFORMATTED_VALUE",
+          dateTimeRenderOption: "FORMATTED_STRING",
+          majorDimension: "ROWS",
+          fields: "values",
+        },
+        { signal }
+      )
+    );
+
+    return (response.data.values || []) as CellValue[][];
+  }
+
+  async appendValues(
+    spreadsheetId: string,
+    range: string,
+    values: CellValue[][]
+  ): Promise<void> {
+    await this.call("write", (sheets, signal) =>
+      sheets.spreadsheets.values.append(
+        {
+          spreadsheetId,
+          range,
+          valueInputOption: "RAW",
+          insertDataOption: "INSERT_ROWS",
+          requestBody: { values },
+        },
+        { signal }
+      )
+    );
+  }
+
+  async batchUpdateValues(
+    spreadsheetId: string,
+    data: ValueRange[]
+  ): Promise<void> {
+    await this.call("write", (sheets, signal) =>
+      sheets.spreadsheets.values.batchUpdate(
+        {
+          spreadsheetId,
+          requestBody: {
+            valueInputOption: "RAW",
+            data,
+          },
+        },
+        { signal }
+      )
+    );
+  }
+
+  async getMetadata(spreadsheetId: string): Promise<SpreadsheetMetadata> {
+    const response = await this.call("read", (sheets, signal) =>
+      sheets.spreadsheets.get(
+        {
+          spreadsheetId,
+          fields:
+            "spreadsheetId,properties.title,sheets.properties(sheetId,title,index,gridProperties(rowCount,columnCount,frozenRowCount))",
+        },
+        { signal }
+      )
+    );
+
+    return {
+      spreadsheetId: response.data.spreadsheetId ?? spreadsheetId,
+      title: response.data.properties?.title ?? "",
+      sheets: (response.data.sheets ?? []).map((sheet, position) => {
+        const props = sheet.properties ?? {};
+        const grid = props.gridProperties ?? {};
+        return {
+          sheetId: props.sheetId ?? 0,
+          title: props.title ?? "",
+          index: props.index ?? position,
+          rowCount: grid.rowCount ?? 0,
+          columnCount: grid.columnCount ?? 0,
+          frozenRowCount: grid.frozenRowCount ?? 0,
+        };
+      }),
+    };
+  }
+
+  async batchUpdate(
+    spreadsheetId: string,
+    requests: SpreadsheetRequest[]
+  ): Promise<void> {
+    await this.call("write", (sheets, signal) =>
+      sheets.spreadsheets.batchUpdate(
+        {
+          spreadsheetId,
+          requestBody: { requests },
+        },
+        { signal }
+      )
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { GoogleSheetsBackend } from "./google";
+import { LocalSheetsBackend } from "./local";
+import type { SheetsBackend } from "./types";
+
+export type {
+  CellValue,
+  SheetProperties,
+  SheetsBackend,
+  SpreadsheetMetadata,
+  SpreadsheetRequest,
+  ValueRange,
+} from "./types";
+export { GoogleSheetsBackend, LocalSheetsBackend };
+
+// SHEETS_BACKEND=local serves spreadsheets from memory / LOCAL_SHEETS_DIR
+// instead of the Google Sheets API, so the server runs without credentials.
+export function createSheetsBackend(
+  kind: string = process.env.SHEETS_BACKEND || "google"
+): SheetsBackend {
+  switch (kind.toLowerCase()) {
+    case "local":
+      return new LocalSheetsBackend();
+    case "google":
+      return new GoogleSheetsBackend();
+    default:
+      throw new Error(`Unknown SHEETS_BACKEND "${kind}"`);
+  }
+}
@@ -0,0 +1,558 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import {
+  BadRequestException,
+  NotFoundException,
+} from "../../common/exceptions";
+import { parseCsv, toCsv } from "../../utils/csv";
+import type {
+  CellValue,
+  SheetsBackend,
+  SpreadsheetMetadata,
+  SpreadsheetRequest,
+  ValueRange,
+} from "./types";
+
+type LocalSheet = {
+  sheetId: number;
+  title: string;
+  grid: CellValue[][];
+  frozenRowCount: number;
+};
+
+type LocalSpreadsheet = {
+  format: "json" | "csv" | "memory";
+  sheets: LocalSheet[];
+};
+
+// Zero-based, end-exclusive bounds. A null end means "to the edge of the grid".
+type GridRange = {
+  sheetTitle: string;
+  startRow: number;
+  endRow: number | null;
+  startCol: number;
+  endCol: number | null;
+};
+
+const SPREADSHEET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function a1ColToIdx(col: string): number {
+  let n = 0;
+  for (const ch of col.toUpperCase()) {
+    n = n * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return n - 1;
+}
+
+function parseA1(range: string): GridRange {
+  const bang = range.lastIndexOf("!");
+  let sheetTitle = bang >= 0 ? range.slice(0, bang) : range;
+  const cells = bang >= 0 ? range.slice(bang + 1) : "";
+
+  if (
+    sheetTitle.length >= 2 &&
+    sheetTitle.startsWith("'") &&
+    sheetTitle.endsWith("'")
+  ) {
+    sheetTitle = sheetTitle.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (!cells) {
+    return { sheetTitle, startRow: 0, endRow: null, startCol: 0, endCol: null };
+  }
+
+  const match = cells.match(/^([A-Za-z]*)(\d*)(?::([A-Za-z]*)(\d*))?$/);
+  if (!match) {
+    throw new BadRequestException(`Unable to parse range: ${range}`);
+  }
+
+  const [, startColStr = "", startRowStr = "", endColStr, endRowStr] = match;
+  const single = endColStr === undefined && endRowStr === undefined;
+
+  const startCol = startColStr ? a1ColToIdx(startColStr) : 0;
+  const startRow = startRowStr ? parseInt(startRowStr) - 1 : 0;
+  let endCol: number | null = endColStr ? a1ColToIdx(endColStr) + 1 : null;
+  let endRow: number | null = endRowStr ? parseInt(endRowStr) : null;
+
+  if (single) {
+    endCol = startColStr ? startCol + 1 : null;
+    endRow = startRowStr ? startRow + 1 : null;
+  }
+
+  return { sheetTitle, startRow, endRow, startCol, endCol };
+}
+
+function isEmptyCell(value: CellValue | undefined): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+function trimRow(row: CellValue[]): CellValue[] {
+  let end = row.length;
+  while (end > 0 && isEmptyCell(row[end - 1])) end--;
+  return row.slice(0, end);
+}
+
+// In-memory implementation of SheetsBackend. When LOCAL_SHEETS_DIR is set,
+// spreadsheets are loaded from and persisted to either `<dir>/<id>.json`
+// ({ "<sheet title>": [[...], ...] }) or a `<dir>/<id>/` folder holding one
+// `<sheet title>.csv` per tab.
+export class LocalSheetsBackend implements SheetsBackend {
+  readonly name = "local";
+  private spreadsheets = new Map<string, LocalSpreadsheet>();
+  private loading = new Map<string, Promise<LocalSpreadsheet>>();
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly dataDir: string | null = process.env.LOCAL_SHEETS_DIR ||
+      null
+  ) {}
+
+  async connect(): Promise<void> {
+    if (this.dataDir) {
+      await mkdir(this.dataDir, { recursive: true });
+    }
+  }
+
+  // Registers (or replaces) an in-memory spreadsheet, e.g. for fixtures.
+  seed(spreadsheetId: string, sheets: Record<string, CellValue[][]>): void {
+    this.spreadsheets.set(spreadsheetId, {
+      format: "memory",
+      sheets: Object.entries(sheets).map(([title, grid], index) => ({
+        sheetId: index,
+        title,
+        grid: grid.map((row) => [...row]),
+        frozenRowCount: 0,
+      })),
+    });
+  }
+
+  private async load(spreadsheetId: string): Promise<LocalSpreadsheet> {
+    const cached = this.spreadsheets.get(spreadsheetId);
+    if (cached) return cached;
+
+    const pending = this.loading.get(spreadsheetId);
+    if (pending) return pending;
+
+    const promise = this.readFromDisk(spreadsheetId)
+      .then((spreadsheet) => {
+        this.spreadsheets.set(spreadsheetId, spreadsheet);
+        return spreadsheet;
+      })
+      .finally(() => {
+        this.loading.delete(spreadsheetId);
+      });
+
+    this.loading.set(spreadsheetId, promise);
+    return promise;
+  }
+
+  private async readFromDisk(spreadsheetId: string): Promise<LocalSpreadsheet> {
+    if (!this.dataDir || !SPREADSHEET_ID_PATTERN.test(spreadsheetId)) {
+      throw new NotFoundException(`Spreadsheet ${spreadsheetId} not found`);
+    }
+
+    const jsonPath = join(this.dataDir, `${spreadsheetId}.json`);
+    const jsonText = await readFile(jsonPath, "utf-8").catch(() => null);
+    if (jsonText !== null) {
+      const parsed = JSON.parse(jsonText) as Record<string, CellValue[][]>;
+      return {
+        format: "json",
+        sheets: Object.entries(parsed).map(([title, grid], index) => ({
+          sheetId: index,
+          title,
+          grid: Array.isArray(grid) ? grid : [],
+          frozenRowCount: 0,
+        })),
+      };
+    }
+
+    const csvDir = join(this.dataDir, spreadsheetId);
+    const dirStat = await stat(csvDir).catch(() => null);
+    if (dirStat?.isDirectory()) {
+      const files = (await readdir(csvDir))
+        .filter((file) => file.toLowerCase().endsWith(".csv"))
+        .sort();
+      const sheets: LocalSheet[] = [];
+      for (const [index, file] of files.entries()) {
+        const text = await readFile(join(csvDir, file), "utf-8");
+        sheets.push({
+          sheetId: index,
+          title: decodeURIComponent(file.slice(0, -4)),
+          grid: parseCsv(text),
+          frozenRowCount: 0,
+        });
+      }
+      return { format: "csv", sheets };
+    }
+
+    throw new NotFoundException(`Spreadsheet ${spreadsheetId} not found`);
+  }
+
+  // Mutations run one at a time per spreadsheet against a copy of its tabs,
+  // and the copy replaces the in-memory state only once it has been written,
+  // so a failed write leaves memory matching the file.
+  private mutate(
+    spreadsheetId: string,
+    change: (sheets: LocalSheet[]) => void
+  ): Promise<void> {
+    const previous = this.writes.get(spreadsheetId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const spreadsheet = await this.load(spreadsheetId);
+        const draft = structuredClone(spreadsheet.sheets);
+        change(draft);
+        await this.writeToDisk(spreadsheetId, spreadsheet.format, draft);
+        spreadsheet.sheets = draft;
+      });
+    this.writes.set(spreadsheetId, next);
+    return next;
+  }
+
+  private async writeToDisk(
+    spreadsheetId: string,
+    format: LocalSpreadsheet["format"],
+    sheets: LocalSheet[]
+  ): Promise<void> {
+    if (!this.dataDir || format === "memory") {
+      return;
+    }
+
+    if (format === "json") {
+      const payload: Record<string, CellValue[][]> = {};
+      for (const sheet of sheets) {
+        payload[sheet.title] = sheet.grid;
+      }
+      await this.writeAtomic(
+        join(this.dataDir, `${spreadsheetId}.json`),
+        JSON.stringify(payload, null, 2)
+      );
+      return;
+    }
+
+    const csvDir = join(this.dataDir, spreadsheetId);
+    await mkdir(csvDir, { recursive: true });
+    const fileNames = new Set<string>();
+    for (const sheet of sheets) {
+      const fileName = `${encodeURIComponent(sheet.title)}.csv`;
+      fileNames.add(fileName);
+      await this.writeAtomic(join(csvDir, fileName), toCsv(sheet.grid));
+    }
+
+    // Drop files left behind by renamed or deleted tabs.
+    for (const file of await readdir(csvDir)) {
+      if (file.toLowerCase().endsWith(".csv") && !fileNames.has(file)) {
+        await unlink(join(csvDir, file));
+      }
+    }
+  }
+
+  private async writeAtomic(path: string, contents: string): Promise<void> {
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, contents, "utf-8");
+    await rename(tmpPath, path);
+  }
+
+  private resolveSheet(
+    sheets: LocalSheet[],
+    range: string
+  ): [LocalSheet, GridRange] {
+    const gridRange = parseA1(range);
+    const sheet = sheets.find((s) => s.title === gridRange.sheetTitle);
+    if (!sheet) {
+      throw new BadRequestException(`Unable to parse range: ${range}`);
+    }
+    return [sheet, gridRange];
+  }
+
+  private writeBlock(
+    sheet: LocalSheet,
+    startRow: number,
+    startCol: number,
+    values: CellValue[][]
+  ): void {
+    values.forEach((rowValues, r) => {
+      const target = startRow + r;
+      while (sheet.grid.length <= target) sheet.grid.push([]);
+      const row = sheet.grid[target]!;
+      rowValues.forEach((value, c) => {
+        // Mirrors the Sheets API: a null value leaves the cell untouched.
+        if (value === null || value === undefined) return;
+        const col = startCol + c;
+        while (row.length < col) row.push("");
+        row[col] = value;
+      });
+    });
+  }
+
+  async getValues(
+    spreadsheetId: string,
+    range: string
+  ): Promise<CellValue[][]> {
+    const spreadsheet = await this.load(spreadsheetId);
+    const [sheet, bounds] = this.resolveSheet(spreadsheet.sheets, range);
+    const rows = sheet.grid
+      .slice(bounds.startRow, bounds.endRow ?? undefined)
+      .map((row) =>
+        trimRow(row.slice(bounds.startCol, bounds.endCol ?? undefined))
+      );
+
+    while (rows.length > 0 && rows[rows.length - 1]!.length === 0) {
+      rows.pop();
+    }
+    return rows;
+  }
+
+  async appendValues(
+    spreadsheetId: string,
+    range: string,
+    values: CellValue[][]
+  ): Promise<void> {
+    await this.mutate(spreadsheetId, (sheets) => {
+      const [sheet, bounds] = this.resolveSheet(sheets, range);
+
+      let lastRow = sheet.grid.length;
+      while (lastRow > 0 && trimRow(sheet.grid[lastRow - 1]!).length === 0) {
+        lastRow--;
+      }
+
+      this.writeBlock(sheet, lastRow, bounds.startCol, values);
+    });
+  }
+
+  async batchUpdateValues(
+    spreadsheetId: string,
+    data: ValueRange[]
+  ): Promise<void> {
+    await this.mutate(spreadsheetId, (sheets) => {
+      for (const entry of data) {
+        const [sheet, bounds] = this.resolveSheet(sheets, entry.range);
+        this.writeBlock(sheet, bounds.startRow, bounds.startCol, entry.values);
+      }
+    });
+  }
+
+  async getMetadata(spreadsheetId: string): Promise<SpreadsheetMetadata> {
+    const spreadsheet = await this.load(spreadsheetId);
+    return {
+      spreadsheetId,
+      title: spreadsheetId,
+      sheets: spreadsheet.sheets.map((sheet, index) => ({
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        index,
+        rowCount: sheet.grid.length,
+        columnCount: sheet.grid.reduce(
+          (max, row) => Math.max(max, row.length),
+          0
+        ),
+        frozenRowCount: sheet.frozenRowCount,
+      })),
+    };
+  }
+
+  // Requests are committed together, matching the all-or-nothing behaviour
+  // of spreadsheets.batchUpdate.
+  async batchUpdate(
+    spreadsheetId: string,
+    requests: SpreadsheetRequest[]
+  ): Promise<void> {
+    await this.mutate(spreadsheetId, (sheets) => {
+      for (const request of requests) {
+        this.applyRequest(sheets, request);
+      }
+    });
+  }
+
+  private findSheetById(
+    sheets: LocalSheet[],
+    sheetId: number | null | undefined
+  ): LocalSheet {
+    const sheet = sheets.find((s) => s.sheetId === (sheetId ?? 0));
+    if (!sheet) {
+      throw new BadRequestException(`No grid with id: ${sheetId}`);
+    }
+    return sheet;
+  }
+
+  private findSheetIndex(sheets: LocalSheet[], title: string): number {
+    return sheets.findIndex((s) => s.title === title);
+  }
+
+  private applyRequest(
+    sheets: LocalSheet[],
+    request: SpreadsheetRequest
+  ): void {
+    if (request.addSheet) {
+      const props = request.addSheet.properties ?? {};
+      const title = props.title ?? `Sheet${sheets.length + 1}`;
+      if (this.findSheetIndex(sheets, title) !== -1) {
+        throw new BadRequestException(
+          `A sheet with the name "${title}" already exists`
+        );
+      }
+      const sheetId =
+        props.sheetId ?? Math.max(-1, ...sheets.map((s) => s.sheetId)) + 1;
+      if (sheets.some((s) => s.sheetId === sheetId)) {
+        throw new BadRequestException(`Sheet id ${sheetId} is already in use`);
+      }
+      const index = Math.min(props.index ?? sheets.length, sheets.length);
+      sheets.splice(index, 0, {
+        sheetId,
+        title,
+        grid: [],
+        frozenRowCount: props.gridProperties?.frozenRowCount ?? 0,
+      });
+      return;
+    }
+
+    if (request.deleteSheet) {
+      const sheet = this.findSheetById(sheets, request.deleteSheet.sheetId);
+      if (sheets.length === 1) {
+        throw new BadRequestException(
+          "You can't remove all the sheets in a document"
+        );
+      }
+      sheets.splice(sheets.indexOf(sheet), 1);
+      return;
+    }
+
+    if (request.updateSheetProperties) {
+      const props = request.updateSheetProperties.properties ?? {};
+      const fields = (request.updateSheetProperties.fields ?? "")
+        .split(",")
+        .map((field) => field.trim());
+      const sheet = this.findSheetById(sheets, props.sheetId);
+
+      if (fields.includes("title") && props.title) {
+        const clash = this.findSheetIndex(sheets, props.title);
+        if (clash !== -1 && sheets[clash] !== sheet) {
+          throw new BadRequestException(
+            `A sheet with the name "${props.title}" already exists`
+          );
+        }
+        sheet.title = props.title;
+      }
+      if (fields.includes("gridProperties.frozenRowCount")) {
+        sheet.frozenRowCount = props.gridProperties?.frozenRowCount ?? 0;
+      }
+      if (fields.includes("index") && props.index !== undefined) {
+        sheets.splice(sheets.indexOf(sheet), 1);
+        sheets.splice(Math.min(props.index ?? 0, sheets.length), 0, sheet);
+      }
+      return;
+    }
+
+    if (request.insertDimension) {
+      const range = request.insertDimension.range ?? {};
+      const sheet = this.findSheetById(sheets, range.sheetId);
+      const start = range.startIndex ?? 0;
+      const count = (range.endIndex ?? start) - start;
+
+      if (range.dimension === "ROWS") {
+        if (sheet.grid.length > start) {
+          sheet.grid.splice(
+            start,
+            0,
+            ...Array.from({ length: count }, () => [])
+          );
+        }
+      } else if (range.dimension === "COLUMNS") {
+        for (const row of sheet.grid) {
+          if (row.length > start) {
+            row.splice(start, 0, ...Array<CellValue>(count).fill(""));
+          }
+        }
+      } else {
+        throw new BadRequestException("insertDimension requires a dimension");
+      }
+      return;
+    }
+
+    if (request.appendDimension) {
+      // Grids here are sparse and grow on write, so there is nothing to add.
+      this.findSheetById(sheets, request.appendDimension.sheetId);
+      return;
+    }
+
+    if (request.moveDimension) {
+      const source = request.moveDimension.source ?? {};
+      const sheet = this.findSheetById(sheets, source.sheetId);
+      const start = source.startIndex ?? 0;
+      const end = source.endIndex ?? start + 1;
+      const destination = request.moveDimension.destinationIndex ?? 0;
+      // destinationIndex counts from before the source is removed.
+      const move = <T>(items: T[], filler: () => T) => {
+        while (items.length < Math.max(end, destination)) items.push(filler());
+        const moved = items.splice(start, end - start);
+        const target =
+          destination > start ? destination - moved.length : destination;
+        items.splice(target, 0, ...moved);
+      };
+
+      if (source.dimension === "ROWS") {
+        move(sheet.grid, () => []);
+      } else if (source.dimension === "COLUMNS") {
+        for (const row of sheet.grid) {
+          move<CellValue>(row, () => "");
+        }
+      } else {
+        throw new BadRequestException("moveDimension requires a dimension");
+      }
+      return;
+    }
+
+    if (request.updateCells) {
+      const { start, rows } = request.updateCells;
+      const sheet = this.findSheetById(sheets, start?.sheetId);
+      const values = (rows ?? []).map((row) =>
+        (row.values ?? []).map((cell) => {
+          const entered = cell.userEnteredValue ?? {};
+          return (entered.stringValue ??
+            entered.numberValue ??
+            entered.boolValue ??
+            entered.formulaValue ??
+            null) as CellValue;
+        })
+      );
+      this.writeBlock(
+        sheet,
+        start?.rowIndex ?? 0,
+        start?.columnIndex ?? 0,
+        values
+      );
+      return;
+    }
+
+    if (request.deleteDimension) {
+      const range = request.deleteDimension.range ?? {};
+      const sheet = this.findSheetById(sheets, range.sheetId);
+      const start = range.startIndex ?? 0;
+      const end = range.endIndex ?? Number.MAX_SAFE_INTEGER;
+
+      if (range.dimension === "ROWS") {
+        sheet.grid.splice(start, end - start);
+      } else if (range.dimension === "COLUMNS") {
+        for (const row of sheet.grid) {
+          row.splice(start, end - start);
+        }
+      } else {
+        throw new BadRequestException("deleteDimension requires a dimension");
+      }
+      return;
+    }
+
+    const kind = Object.keys(request)[0] ?? "unknown";
+    throw new BadRequestException(
+      `Request "${kind}" is not supported by the local backend`
+    );
+  }
+}
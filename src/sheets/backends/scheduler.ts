@@ -0,0 +1,290 @@
+import {
+  GatewayTimeoutException,
+  ServiceUnavailableException,
+} from "../../common/exceptions";
+import {
+  SHEETS_MAX_QUEUE,
+  SHEETS_MAX_RETRIES,
+  SHEETS_READS_PER_MINUTE,
+  SHEETS_REQUEST_DEADLINE_MS,
+  SHEETS_WRITES_PER_MINUTE,
+} from "../../constants";
+
+export type QuotaKind = "read" | "write";
+
+export type SchedulerOptions = {
+  readsPerMinute: number;
+  writesPerMinute: number;
+  maxQueue: number;
+  deadlineMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+type Task<T> = (signal: AbortSignal) => Promise<T>;
+
+type Job = {
+  task: Task<any>;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  controller: AbortController;
+  deadline: number;
+  attempt: number;
+  // A request is with the API right now.
+  inFlight: boolean;
+  settled: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+const WINDOW_MS = 60000;
+const RETRYABLE_STATUSES = [429, 503];
+const RETRYABLE_CODES = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ECONNABORTED",
+  "EAI_AGAIN",
+];
+
+const UNCERTAIN_WRITE =
+  "; it may still have been applied, so re-read the sheet before retrying";
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export function schedulerOptionsFromEnv(): SchedulerOptions {
+  return {
+    readsPerMinute: envNumber(
+      "SHEETS_READS_PER_MINUTE",
+      SHEETS_READS_PER_MINUTE
+    ),
+    writesPerMinute: envNumber(
+      "SHEETS_WRITES_PER_MINUTE",
+      SHEETS_WRITES_PER_MINUTE
+    ),
+    maxQueue: envNumber("SHEETS_MAX_QUEUE", SHEETS_MAX_QUEUE),
+    deadlineMs: envNumber(
+      "SHEETS_REQUEST_DEADLINE_MS",
+      SHEETS_REQUEST_DEADLINE_MS
+    ),
+    maxRetries: envNumber("SHEETS_MAX_RETRIES", SHEETS_MAX_RETRIES),
+    baseDelayMs: 500,
+    maxDelayMs: 32000,
+  };
+}
+
+// HTTP status of a failed API call, from a gaxios error or a plain response.
+export function errorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status ?? error?.code;
+  return typeof status === "number" ? status : undefined;
+}
+
+// A failed write may still have been applied (an append retried after a
+// dropped connection would add its rows twice), so writes are retried only
+// on 429, which the API sends before processing anything.
+export function isRetryable(error: any, kind: QuotaKind = "read"): boolean {
+  const status = errorStatus(error);
+  if (kind === "write") return status === 429;
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  return RETRYABLE_CODES.includes(error?.code ?? error?.cause?.code);
+}
+
+// Seconds from a `Retry-After` response header, when the API sent one.
+function retryAfterOf(error: any): number | undefined {
+  const headers = error?.response?.headers;
+  const raw =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+  if (raw === undefined || raw === null) return undefined;
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(String(raw));
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// Runs API calls within per-minute read/write quotas. Calls over quota wait
+// in a FIFO queue per kind; reads are retried on 429/503 and connection
+// resets, writes only on 429, with exponential backoff and full jitter. Every
+// call has a deadline covering queueing, retries and the in-flight request,
+// which is aborted when it passes. A full queue is rejected up front with 503
+// and `Retry-After`.
+export class RequestScheduler {
+  private queues: Record<QuotaKind, Job[]> = { read: [], write: [] };
+  // Start times of calls made in the last minute, per kind.
+  private windows: Record<QuotaKind, number[]> = { read: [], write: [] };
+  private wakeTimers: Partial<
+    Record<QuotaKind, ReturnType<typeof setTimeout>>
+  > = {};
+
+  constructor(private options: SchedulerOptions = schedulerOptionsFromEnv()) {}
+
+  private limit(kind: QuotaKind): number {
+    return kind === "read"
+      ? this.options.readsPerMinute
+      : this.options.writesPerMinute;
+  }
+
+  schedule<T>(
+    kind: QuotaKind,
+    task: Task<T>,
+    deadlineMs: number = this.options.deadlineMs
+  ): Promise<T> {
+    const queue = this.queues[kind];
+    if (queue.length >= this.options.maxQueue) {
+      return Promise.reject(
+        new ServiceUnavailableException(
+          `Too many pending Google Sheets ${kind} requests`,
+          this.estimateWait(kind)
+        )
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        task,
+        resolve,
+        reject,
+        controller: new AbortController(),
+        deadline: Date.now() + deadlineMs,
+        attempt: 0,
+        inFlight: false,
+        settled: false,
+      };
+
+      job.timer = setTimeout(() => {
+        this.remove(kind, job);
+        const sent = kind === "write" && job.inFlight;
+        job.controller.abort();
+        this.settle(
+          job,
+          new GatewayTimeoutException(
+            `Google Sheets ${kind} request did not complete within ${deadlineMs}ms` +
+              (sent ? UNCERTAIN_WRITE : "")
+          )
+        );
+      }, deadlineMs);
+
+      queue.push(job);
+      this.pump(kind);
+    });
+  }
+
+  // Rough number of seconds until the current backlog drains.
+  private estimateWait(kind: QuotaKind): number {
+    const backlog = this.queues[kind].length + this.windows[kind].length;
+    return Math.max(1, Math.ceil((backlog / this.limit(kind)) * 60));
+  }
+
+  private remove(kind: QuotaKind, job: Job): void {
+    const queue = this.queues[kind];
+    const index = queue.indexOf(job);
+    if (index !== -1) queue.splice(index, 1);
+  }
+
+  private settle(job: Job, error: any, value?: any): void {
+    if (job.settled) return;
+    job.settled = true;
+    clearTimeout(job.timer);
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(value);
+    }
+  }
+
+  private pump(kind: QuotaKind): void {
+    const queue = this.queues[kind];
+    const window = this.windows[kind];
+
+    while (queue.length > 0) {
+      const now = Date.now();
+      while (window.length > 0 && now - window[0]! >= WINDOW_MS) {
+        window.shift();
+      }
+
+      if (window.length >= this.limit(kind)) {
+        if (!this.wakeTimers[kind]) {
+          this.wakeTimers[kind] = setTimeout(() => {
+            delete this.wakeTimers[kind];
+            this.pump(kind);
+          }, WINDOW_MS - (now - window[0]!));
+        }
+        return;
+      }
+
+      const job = queue.shift()!;
+      window.push(now);
+      void this.run(kind, job);
+    }
+  }
+
+  private async run(kind: QuotaKind, job: Job): Promise<void> {
+    job.inFlight = true;
+    try {
+      const value = await job.task(job.controller.signal);
+      this.settle(job, null, value);
+    } catch (error: any) {
+      job.inFlight = false;
+      if (job.settled) return;
+
+      // A write that failed in transit is reported, never repeated.
+      if (kind === "write" && !isRetryable(error, kind) && isRetryable(error)) {
+        this.settle(
+          job,
+          new GatewayTimeoutException(
+            `Google Sheets write failed (${
+              error?.code ?? error?.cause?.code ?? errorStatus(error)
+            })` + UNCERTAIN_WRITE
+          )
+        );
+        return;
+      }
+
+      const retryAfter = retryAfterOf(error);
+      if (!isRetryable(error, kind) || job.attempt >= this.options.maxRetries) {
+        this.settle(
+          job,
+          isRetryable(error, kind)
+            ? new ServiceUnavailableException(
+                "Google Sheets API is rate limiting or unavailable, retry later",
+                retryAfter ?? this.estimateWait(kind)
+              )
+            : error
+        );
+        return;
+      }
+
+      const backoff = Math.min(
+        this.options.maxDelayMs,
+        this.options.baseDelayMs * 2 ** job.attempt
+      );
+      const delay = Math.max(Math.random() * backoff, (retryAfter ?? 0) * 1000);
+      if (Date.now() + delay >= job.deadline) {
+        this.settle(
+          job,
+          new ServiceUnavailableException(
+            "Google Sheets API is rate limiting or unavailable, retry later",
+            Math.max(1, Math.ceil(delay / 1000))
+          )
+        );
+        return;
+      }
+
+      job.attempt++;
+      setTimeout(() => {
+        if (job.settled) return;
+        // Retries go to the front of the queue but still need a quota slot.
+        this.queues[kind].unshift(job);
+        this.pump(kind);
+      }, delay);
+    }
+  }
+}
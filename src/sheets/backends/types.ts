@@ -0,0 +1,46 @@
+import type { sheets_v4 } from "googleapis";
+
+export type CellValue = string | number | boolean | null;
+
+export type ValueRange = {
+  range: string;
+  values: CellValue[][];
+};
+
+// Structural edits use the Sheets API request shape; the local backend
+// implements the subset the service issues.
+export type SpreadsheetRequest = sheets_v4.Schema$Request;
+
+export type SheetProperties = {
+  sheetId: number;
+  title: string;
+  index: number;
+  rowCount: number;
+  columnCount: number;
+  frozenRowCount: number;
+};
+
+export type SpreadsheetMetadata = {
+  spreadsheetId: string;
+  title: string;
+  sheets: SheetProperties[];
+};
+
+// Storage contract used by GoogleSheetsService. Ranges are A1 notation
+// ("Sheet!A2:D2"), values are row-major, and writes are always RAW.
+export interface SheetsBackend {
+  readonly name: string;
+  connect(): Promise<void>;
+  getValues(spreadsheetId: string, range: string): Promise<CellValue[][]>;
+  appendValues(
+    spreadsheetId: string,
+    range: string,
+    values: CellValue[][]
+  ): Promise<void>;
+  batchUpdateValues(spreadsheetId: string, data: ValueRange[]): Promise<void>;
+  getMetadata(spreadsheetId: string): Promise<SpreadsheetMetadata>;
+  batchUpdate(
+    spreadsheetId: string,
+    requests: SpreadsheetRequest[]
+  ): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { MemoryCacheStore } from "./memory";
+import { SqliteCacheStore } from "./sqlite";
+import type { CacheStore, CacheStoreOptions } from "./types";
+
+export type {
+  CacheEntry,
+  CacheStats,
+  CacheStore,
+  CacheStoreOptions,
+  EpochGuard,
+} from "./types";
+export { MemoryCacheStore, SqliteCacheStore };
+
+// CACHE_STORE=sqlite keeps cached reads in CACHE_SQLITE_PATH so they survive
+// restarts and are shared between processes on one host.
+export function createCacheStore(
+  options: CacheStoreOptions,
+  kind: string = process.env.CACHE_STORE || "memory"
+): CacheStore {
+  switch (kind.toLowerCase()) {
+    case "memory":
+      return new MemoryCacheStore(options);
+    case "sqlite":
+      return new SqliteCacheStore(options);
+    default:
+      throw new Error(`Unknown CACHE_STORE "${kind}"`);
+  }
+}
@@ -0,0 +1,88 @@
+import type {
+  CacheEntry,
+  CacheStats,
+  CacheStore,
+  CacheStoreOptions,
+  EpochGuard,
+} from "./types";
+
+// Process-local LRU built on Map insertion order.
+export class MemoryCacheStore implements CacheStore {
+  readonly name = "memory";
+  private entries = new Map<string, CacheEntry>();
+  private epochs = new Map<string, number>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private options: CacheStoreOptions) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (Date.now() - entry.timestamp > this.options.maxAgeMs) {
+      this.evictions++;
+      this.misses++;
+      return undefined;
+    }
+
+    // Refresh insertion order for LRU
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry, guard?: EpochGuard): Promise<void> {
+    if (guard && (this.epochs.get(guard.scope) ?? 0) !== guard.epoch) return;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.prune(Date.now());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async epoch(scope: string): Promise<number> {
+    return this.epochs.get(scope) ?? 0;
+  }
+
+  async bumpEpoch(scope: string): Promise<void> {
+    this.epochs.set(scope, (this.epochs.get(scope) ?? 0) + 1);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix));
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      store: this.name,
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (now - entry.timestamp > this.options.maxAgeMs) {
+        this.entries.delete(key);
+        this.evictions++;
+      }
+    }
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+}
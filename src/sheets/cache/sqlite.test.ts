@@ -0,0 +1,30 @@
+import { afterAll, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SqliteCacheStore } from "./sqlite";
+
+const path = join(tmpdir(), `cache-${process.pid}-${Date.now()}.sqlite`);
+const options = { maxAgeMs: 60_000, maxEntries: 10 };
+
+afterAll(() => {
+  for (const suffix of ["", "-wal", "-shm"])
+    rmSync(path + suffix, { force: true });
+});
+
+test("an invalidation in one process stops another caching a stale read", async () => {
+  const reader = new SqliteCacheStore(options, path);
+  const writer = new SqliteCacheStore(options, path);
+  const entry = { timestamp: Date.now(), data: [["old"]] };
+
+  const epoch = await reader.epoch("sheet");
+  await writer.bumpEpoch("sheet");
+  await reader.set("sheet:A", entry, { scope: "sheet", epoch });
+  expect(await writer.get("sheet:A")).toBeUndefined();
+
+  await reader.set("sheet:A", entry, {
+    scope: "sheet",
+    epoch: await reader.epoch("sheet"),
+  });
+  expect(await writer.get("sheet:A")).toEqual(entry);
+});
@@ -0,0 +1,161 @@
+import { Database } from "bun:sqlite";
+import type {
+  CacheEntry,
+  CacheStats,
+  CacheStore,
+  CacheStoreOptions,
+  EpochGuard,
+} from "./types";
+
+type Row = { timestamp: number; data: string };
+
+// Cache persisted in a SQLite file, so it survives restarts and can be
+// shared by several processes on the same host (WAL mode). Recency for LRU
+// eviction is tracked in `accessed`.
+export class SqliteCacheStore implements CacheStore {
+  readonly name = "sqlite";
+  private db: Database;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private options: CacheStoreOptions,
+    path: string = process.env.CACHE_SQLITE_PATH || "cache.sqlite"
+  ) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA busy_timeout = 5000");
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS read_cache (
+        key TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        accessed INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`
+    );
+    this.db.exec(
+      "CREATE INDEX IF NOT EXISTS read_cache_accessed ON read_cache (accessed)"
+    );
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS cache_epochs (
+        scope TEXT PRIMARY KEY,
+        epoch INTEGER NOT NULL
+      )`
+    );
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const row = this.db
+      .query<Row, [string]>(
+        "SELECT timestamp, data FROM read_cache WHERE key = ?"
+      )
+      .get(key);
+    if (!row) {
+      this.misses++;
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (now - row.timestamp > this.options.maxAgeMs) {
+      this.db.query("DELETE FROM read_cache WHERE key = ?").run(key);
+      this.evictions++;
+      this.misses++;
+      return undefined;
+    }
+
+    this.db
+      .query("UPDATE read_cache SET accessed = ? WHERE key = ?")
+      .run(now, key);
+    this.hits++;
+    return { timestamp: row.timestamp, data: JSON.parse(row.data) };
+  }
+
+  async set(key: string, entry: CacheEntry, guard?: EpochGuard): Promise<void> {
+    const now = Date.now();
+    // One statement, so an invalidation from another process can't land
+    // between the epoch check and the write.
+    this.db
+      .query(
+        `INSERT INTO read_cache (key, timestamp, accessed, data)
+         SELECT ?1, ?2, ?3, ?4
+         WHERE ?5 IS NULL OR ?6 = COALESCE(
+           (SELECT epoch FROM cache_epochs WHERE scope = ?5), 0
+         )
+         ON CONFLICT (key) DO UPDATE SET
+           timestamp = excluded.timestamp,
+           accessed = excluded.accessed,
+           data = excluded.data`
+      )
+      .run(
+        key,
+        entry.timestamp,
+        now,
+        JSON.stringify(entry.data),
+        guard?.scope ?? null,
+        guard?.epoch ?? 0
+      );
+    this.prune(now);
+  }
+
+  async epoch(scope: string): Promise<number> {
+    const row = this.db
+      .query<{ epoch: number }, [string]>(
+        "SELECT epoch FROM cache_epochs WHERE scope = ?"
+      )
+      .get(scope);
+    return row?.epoch ?? 0;
+  }
+
+  async bumpEpoch(scope: string): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO cache_epochs (scope, epoch) VALUES (?, 1)
+         ON CONFLICT (scope) DO UPDATE SET epoch = epoch + 1`
+      )
+      .run(scope);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = this.db
+      .query("DELETE FROM read_cache WHERE key = ?")
+      .run(key);
+    return result.changes > 0;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return this.db
+      .query<{ key: string }, [string]>(
+        "SELECT key FROM read_cache WHERE substr(key, 1, length(?1)) = ?1"
+      )
+      .all(prefix)
+      .map((row) => row.key);
+  }
+
+  async stats(): Promise<CacheStats> {
+    const { size } = this.db
+      .query<{ size: number }, []>("SELECT COUNT(*) AS size FROM read_cache")
+      .get()!;
+    return {
+      store: this.name,
+      size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private prune(now: number): void {
+    const expired = this.db
+      .query("DELETE FROM read_cache WHERE timestamp < ?")
+      .run(now - this.options.maxAgeMs);
+    const overflow = this.db
+      .query(
+        `DELETE FROM read_cache WHERE key IN (
+          SELECT key FROM read_cache ORDER BY accessed DESC LIMIT -1 OFFSET ?
+        )`
+      )
+      .run(this.options.maxEntries);
+    this.evictions += expired.changes + overflow.changes;
+  }
+}
@@ -0,0 +1,35 @@
+export type CacheEntry = { timestamp: number; data: string[][] };
+
+export type CacheStats = {
+  store: string;
+  size: number;
+  hits: number;
+  misses: number;
+  // Entries dropped for age or to stay within maxEntries; explicit deletes
+  // (invalidation) are not counted.
+  evictions: number;
+};
+
+// Stores an entry only while `scope`'s epoch still equals `epoch`.
+export type EpochGuard = { scope: string; epoch: number };
+
+export type CacheStoreOptions = {
+  // Entries older than this are treated as missing and dropped.
+  maxAgeMs: number;
+  maxEntries: number;
+};
+
+// Storage for cached sheet reads, keyed by "spreadsheetId:range". Stores
+// enforce maxAge and maxEntries (least recently used goes first) themselves.
+// Each scope (spreadsheet) also has an epoch, bumped on invalidation and kept
+// with the entries, so every process sharing a store agrees on it.
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, guard?: EpochGuard): Promise<void>;
+  epoch(scope: string): Promise<number>;
+  bumpEpoch(scope: string): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  keys(prefix: string): Promise<string[]>;
+  stats(): Promise<CacheStats>;
+}
@@ -1,10 +1,60 @@
-import { validateData, validateSheet } from "./dto";
+import {
+  validateBulkMode,
+  validateData,
+  validateHeaders,
+  validateImportFormat,
+  validateEvents,
+  validateImportMode,
+  validateInterval,
+  validateJsonParam,
+  validateLiveQuery,
+  validateKeys,
+  validateMapping,
+  validatePosition,
+  validateReadParams,
+  validateRows,
+  validateSheet,
+  validateTitle,
+  validateWebhookSecret,
+  validateWebhookUrl,
+  validateWhere,
+} from "./dto";
 import { FiltersService } from "./filters";
+import { formatEtag, formatRows, negotiateFormat } from "./formats";
+import { ImportService } from "./importer";
+import {
+  matchingRows,
+  streamRowsResponse,
+  validateStreamRequest,
+} from "./streaming";
 import { GoogleSheetsService, type SheetQueryOptions } from "./service";
-import { jsonResponse } from "../utils/index";
+import { compileQuery, type ParsedQuery } from "./query";
+import { routeDefinitions } from "./routes";
+import { subscriptionResponse } from "./subscriptions";
+import { WatchService } from "./watch";
+import {
+  CORE_HEADERS,
+  errorHeaders,
+  isNotModified,
+  jsonResponse,
+} from "../utils/index";
+import { AuthService } from "../auth/service";
+import { buildOpenApiDocument, docsPage } from "../common/openapi";
+import { READ_MAX_AGE_SECONDS } from "../constants";
+import {
+  BadRequestException,
+  QuerySyntaxException,
+} from "../common/exceptions";
 
 const sheetsService = GoogleSheetsService.getInstance();
 const filtersService = new FiltersService();
+const importService = new ImportService(sheetsService);
+const watchService = WatchService.getInstance();
+const authService = AuthService.getInstance();
+// 0 is allowed: caches then revalidate on every use.
+const maxAge = parseInt(process.env.READ_MAX_AGE_SECONDS ?? "", 10);
+const READ_MAX_AGE =
+  Number.isNaN(maxAge) || maxAge < 0 ? READ_MAX_AGE_SECONDS : maxAge;
 
 export async function readSheet(
   req: Request,
@@ -14,6 +64,28 @@ export async function readSheet(
   try {
     const body = (await req.json().catch(() => ({}))) as Record<string, any>;
     const sheetName = validateSheet(searchParams);
+    const format = negotiateFormat(req, searchParams);
+
+    if (searchParams.get("stream")?.toLowerCase() === "true") {
+      const options = body.options as SheetQueryOptions | undefined;
+      // Streams default to NDJSON unless a format is asked for explicitly.
+      const streamFormat = validateStreamRequest(
+        negotiateFormat(req, searchParams, "ndjson"),
+        options
+      );
+      const { headers, schema, chunks } = await sheetsService.openRowStream(
+        spreadsheetId,
+        sheetName
+      );
+      const predicate = filtersService.buildPredicate(body.where, schema.types);
+      const rows = matchingRows(
+        chunks,
+        predicate,
+        sheetsService.resolveWindow(options)
+      );
+      return streamRowsResponse(streamFormat, sheetName, headers, rows);
+    }
+
     let rows: any = await sheetsService.readValues(spreadsheetId, sheetName);
     if (!rows.length) {
       return jsonResponse(
@@ -23,18 +95,111 @@ export async function readSheet(
     }
 
     const headers = rows[0];
-    rows = sheetsService.normalizeRows(headers!, rows.slice(1));
-    rows = filtersService.applyFilters(rows, body.where);
+    const etag = sheetsService.computeEtag(rows);
+    const schema = sheetsService.getSchema(spreadsheetId, sheetName, rows);
+    rows = sheetsService.normalizeRows(headers!, rows.slice(1), schema);
+    rows = filtersService.applyFilters(rows, body.where, schema.types);
     const rawOptions = body.options as SheetQueryOptions | undefined;
-    rows = sheetsService.applyOptions(rows, rawOptions);
+    rows = sheetsService.applyOptions(rows, rawOptions, schema.types);
+    const [pageRows, pagination] = sheetsService.applyPagination(
+      rows,
+      rawOptions
+    );
+
+    const outputHeaders = sheetsService.resolveHeaders(headers!, rawOptions);
+    if (format !== "json") {
+      return formatRows(format, sheetName, outputHeaders, pageRows, {
+        status: 200,
+        headers: { ETag: formatEtag(etag, format) },
+      });
+    }
 
     const response = {
       sheet: sheetName,
-      headers,
-      rows,
+      headers: outputHeaders,
+      rows: pageRows,
+      ...pagination,
     };
 
-    return response;
+    return jsonResponse(response, {
+      status: 200,
+      headers: { ETag: etag },
+    });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+// GET variant of readSheet for bookmarks, browsers and CDNs: the query
+// comes from URL params and responses carry caching validators, so a
+// conditional request for an unchanged tab is answered with 304.
+export async function readSheetQuery(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const sheetName = validateSheet(searchParams);
+    const { where, options } = validateReadParams(searchParams);
+    const format = negotiateFormat(req, searchParams);
+
+    const values = await sheetsService.readValues(spreadsheetId, sheetName);
+    if (!values.length) {
+      return jsonResponse(
+        { error: "Sheet appears empty or unreadable" },
+        { status: 400 }
+      );
+    }
+
+    const etag = sheetsService.computeEtag(values);
+    const lastModified = sheetsService.lastModified(
+      spreadsheetId,
+      sheetName,
+      etag
+    );
+    const representationEtag = formatEtag(etag, format);
+    const cacheHeaders = {
+      ETag: representationEtag,
+      "Last-Modified": lastModified.toUTCString(),
+      // Responses depend on the caller's grants once auth is on.
+      "Cache-Control": `${
+        authService.enabled ? "private" : "public"
+      }, max-age=${READ_MAX_AGE}`,
+      Vary: "Accept",
+    };
+    if (isNotModified(req, representationEtag, lastModified)) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...CORE_HEADERS, ...cacheHeaders },
+      });
+    }
+
+    const headers = values[0] as string[];
+    const schema = sheetsService.getSchema(spreadsheetId, sheetName, values);
+    let rows = sheetsService.normalizeRows(headers, values.slice(1), schema);
+    rows = filtersService.applyFilters(rows, where, schema.types);
+    rows = sheetsService.applyOptions(rows, options, schema.types);
+    const [pageRows, pagination] = sheetsService.applyPagination(rows, options);
+
+    const outputHeaders = sheetsService.resolveHeaders(headers, options);
+    if (format !== "json") {
+      return formatRows(format, sheetName, outputHeaders, pageRows, {
+        status: 200,
+        headers: cacheHeaders,
+      });
+    }
+
+    const response = {
+      sheet: sheetName,
+      headers: outputHeaders,
+      rows: pageRows,
+      ...pagination,
+    };
+
+    return jsonResponse(response, {
+      status: 200,
+      headers: cacheHeaders,
+    });
   } catch (error: any) {
     throw error;
   }
@@ -53,13 +218,16 @@ export async function updateSheet(
     const where = body.where;
     const updateAll = searchParams.get("multiple")?.toLowerCase() === "true";
     const upsert = searchParams.get("upsert")?.toLowerCase() === "true";
+    const strict = searchParams.get("strict")?.toLowerCase() === "true";
+    const ifMatch = req.headers.get("if-match");
 
     const result = await sheetsService.updateRows(
       spreadsheetId,
       sheetName,
       where,
       data,
-      updateAll
+      updateAll,
+      { strict, ifMatch }
     );
 
     let appended = 0;
@@ -67,7 +235,8 @@ export async function updateSheet(
       const appendRes = await sheetsService.appendRow(
         spreadsheetId,
         sheetName,
-        data
+        data,
+        { strict, ifMatch }
       );
       appended = appendRes.appended;
     }
@@ -92,12 +261,38 @@ export async function createRow(
   try {
     const body = (await req.json().catch(() => ({}))) as Record<string, any>;
     const sheetName = validateSheet(searchParams);
+    const strict = searchParams.get("strict")?.toLowerCase() === "true";
+    const ifMatch = req.headers.get("if-match");
+
+    if (Array.isArray(body)) {
+      const rows = validateRows(body);
+      const mode = validateBulkMode(searchParams);
+      const result = await sheetsService.appendRows(
+        spreadsheetId,
+        sheetName,
+        rows,
+        mode,
+        { strict, ifMatch }
+      );
+
+      const response = {
+        sheet: sheetName,
+        mode,
+        appended: result.appended,
+        failed: result.results.filter((r) => r.status === "invalid").length,
+        results: result.results,
+      };
+
+      return jsonResponse(response, { status: 201 });
+    }
+
     const data = validateData(body);
 
     const result = await sheetsService.appendRow(
       spreadsheetId,
       sheetName,
-      data
+      data,
+      { strict, ifMatch }
     );
 
     const response = {
@@ -109,8 +304,553 @@ export async function createRow(
   } catch (error: any) {
     const status = error?.status ?? 400;
     return jsonResponse(
-      { error: error?.message ?? String(error), status },
-      { status }
+      {
+        error: error?.message ?? String(error),
+        status,
+        ...(error?.errors ? { errors: error.errors } : {}),
+      },
+      { status, headers: errorHeaders(error) }
+    );
+  }
+}
+
+export async function deleteRows(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+): Promise<Response> {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const sheetName = validateSheet(searchParams);
+    const where = validateWhere(body.where);
+    const deleteAll = searchParams.get("multiple")?.toLowerCase() === "true";
+
+    const result = await sheetsService.deleteRows(
+      spreadsheetId,
+      sheetName,
+      where,
+      deleteAll,
+      { ifMatch: req.headers.get("if-match") }
+    );
+
+    // Answer 200 rather than SUCCESS_CODES.DELETE (204) so the count is sent.
+    const response = {
+      sheet: sheetName,
+      deleted: result.deleted,
+    };
+
+    return jsonResponse(response, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function upsertRows(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const sheetName = validateSheet(searchParams);
+    const keys = validateKeys(body.keys, searchParams);
+    if (!Array.isArray(body.records)) {
+      throw new BadRequestException("'records' must be an array");
+    }
+    const records = validateRows(body.records);
+    const mode = validateBulkMode(searchParams);
+    const strict = searchParams.get("strict")?.toLowerCase() === "true";
+    const ifMatch = req.headers.get("if-match");
+
+    const result = await sheetsService.upsertRows(
+      spreadsheetId,
+      sheetName,
+      keys,
+      records,
+      mode,
+      { strict, ifMatch }
+    );
+
+    const response = {
+      sheet: sheetName,
+      mode,
+      inserted: result.inserted,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      failed: result.results.filter((r) => r.status === "invalid").length,
+      results: result.results,
+    };
+
+    return jsonResponse(response, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function invalidateCache(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    // Without `sheet` every cached range of the spreadsheet is dropped.
+    const sheetName = searchParams.get("sheet") ?? undefined;
+    const invalidated = await sheetsService.invalidateCache(
+      spreadsheetId,
+      sheetName
+    );
+
+    const response = {
+      sheet: sheetName ?? null,
+      invalidated,
+    };
+
+    return jsonResponse(response, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function cacheStats() {
+  try {
+    return jsonResponse(await sheetsService.cacheStats(), { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function listSheets(req: Request, spreadsheetId: string) {
+  try {
+    const metadata = await sheetsService.getMetadata(spreadsheetId);
+
+    const response = {
+      spreadsheetId: metadata.spreadsheetId,
+      title: metadata.title,
+      sheets: metadata.sheets,
+    };
+
+    return jsonResponse(response, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function getSheetHeaders(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string
+) {
+  try {
+    const columns = await sheetsService.getSheetColumns(
+      spreadsheetId,
+      sheetName
+    );
+
+    const response = {
+      sheet: sheetName,
+      headers: columns.map((column) => column.name),
+      columns,
+    };
+
+    return jsonResponse(response, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function createTab(req: Request, spreadsheetId: string) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const title = validateTitle(body.title);
+    const headers = validateHeaders(body.headers);
+    const index = validatePosition(body.index, "index");
+    const frozenRowCount = validatePosition(
+      body.frozenRowCount,
+      "frozenRowCount"
+    );
+
+    const sheet = await sheetsService.createSheet(spreadsheetId, title, {
+      headers,
+      index,
+      frozenRowCount,
+    });
+
+    return jsonResponse({ sheet, headers }, { status: 201 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function updateTab(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const title =
+      body.title === undefined ? undefined : validateTitle(body.title);
+    const index = validatePosition(body.index, "index");
+    const frozenRowCount = validatePosition(
+      body.frozenRowCount,
+      "frozenRowCount"
+    );
+
+    const sheet = await sheetsService.updateSheetProperties(
+      spreadsheetId,
+      sheetName,
+      { title, index, frozenRowCount }
+    );
+
+    return jsonResponse({ sheet }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function deleteTab(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string
+) {
+  try {
+    await sheetsService.deleteSheet(spreadsheetId, sheetName);
+
+    return jsonResponse({ sheet: sheetName, deleted: true }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function addColumn(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const name = validateTitle(body.name, "name");
+    const position = validatePosition(body.position);
+
+    const headers = await sheetsService.addColumn(
+      spreadsheetId,
+      sheetName,
+      name,
+      position
+    );
+
+    return jsonResponse({ sheet: sheetName, headers }, { status: 201 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function updateColumn(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string,
+  column: string
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const name =
+      body.name === undefined ? undefined : validateTitle(body.name, "name");
+    const position = validatePosition(body.position);
+    if (name === undefined && position === undefined) {
+      throw new BadRequestException("Provide 'name' and/or 'position'");
+    }
+
+    const headers = await sheetsService.updateColumn(
+      spreadsheetId,
+      sheetName,
+      column,
+      { name, position }
+    );
+
+    return jsonResponse({ sheet: sheetName, headers }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function deleteColumn(
+  req: Request,
+  spreadsheetId: string,
+  sheetName: string,
+  column: string
+) {
+  try {
+    const headers = await sheetsService.deleteColumn(
+      spreadsheetId,
+      sheetName,
+      column
+    );
+
+    return jsonResponse({ sheet: sheetName, headers }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function importRows(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const sheetName = validateSheet(searchParams);
+    const mode = validateImportMode(searchParams);
+    const format = validateImportFormat(
+      searchParams,
+      req.headers.get("content-type")
+    );
+    const keys =
+      mode === "upsert" ? validateKeys(undefined, searchParams) : undefined;
+    const mapping = validateMapping(searchParams.get("mapping"));
+    const strict = searchParams.get("strict")?.toLowerCase() === "true";
+    if (!req.body) {
+      throw new BadRequestException("Request body is empty");
+    }
+
+    const report = await importService.importRows(
+      spreadsheetId,
+      sheetName,
+      req.body,
+      { mode, format, keys, mapping, strict }
+    );
+
+    return jsonResponse(report, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function listWatches(req: Request, spreadsheetId: string) {
+  try {
+    return jsonResponse(
+      { watches: watchService.listWatches(spreadsheetId) },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function createWatch(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    const sheetName = validateSheet(searchParams);
+    // Without a key column, rows are matched by position.
+    const key =
+      body.key === undefined || body.key === null
+        ? null
+        : validateTitle(body.key, "key");
+    const intervalMs = validateInterval(body.intervalMs);
+
+    const watch = await watchService.addWatch(spreadsheetId, sheetName, {
+      key,
+      intervalMs,
+    });
+
+    return jsonResponse({ watch }, { status: 201 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function deleteWatch(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const sheetName = validateSheet(searchParams);
+    watchService.removeWatch(spreadsheetId, sheetName);
+
+    return jsonResponse({ sheet: sheetName, deleted: true }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+// Only webhooks whose tab (or, for spreadsheet-wide ones, null) passes
+// `canRead` are listed.
+export async function listWebhooks(
+  req: Request,
+  spreadsheetId: string,
+  canRead: (sheet: string | null) => boolean
+) {
+  try {
+    const webhooks = watchService
+      .listWebhooks(spreadsheetId)
+      .filter((webhook) => canRead(webhook.sheet));
+    return jsonResponse({ webhooks }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function createWebhook(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+    // Without `sheet` the webhook receives events for every watched tab.
+    const sheetName = searchParams.get("sheet");
+    const webhook = await watchService.createWebhook(spreadsheetId, {
+      url: validateWebhookUrl(body.url),
+      sheet: sheetName === null ? null : validateTitle(sheetName, "sheet"),
+      secret: validateWebhookSecret(body.secret),
+      events: validateEvents(body.events),
+    });
+
+    return jsonResponse({ webhook }, { status: 201 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+// `authorizeSheet` is checked against the webhook's own tab before it is
+// removed.
+export async function deleteWebhook(
+  req: Request,
+  spreadsheetId: string,
+  webhookId: string,
+  authorizeSheet: (sheet: string | null) => void
+) {
+  try {
+    const webhook = watchService.getWebhook(spreadsheetId, webhookId);
+    authorizeSheet(webhook.sheet);
+    watchService.deleteWebhook(spreadsheetId, webhookId);
+
+    return jsonResponse({ id: webhookId, deleted: true }, { status: 200 });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function subscribeSheet(
+  req: Request,
+  spreadsheetId: string,
+  searchParams: URLSearchParams
+) {
+  try {
+    const body =
+      req.method === "GET"
+        ? {
+            where: validateJsonParam(searchParams, "where"),
+            options: validateJsonParam(searchParams, "options"),
+            key: searchParams.get("key")?.split(",") ?? undefined,
+          }
+        : ((await req.json().catch(() => ({}))) as Record<string, any>);
+    const sheetName = validateSheet(searchParams);
+    const query = validateLiveQuery(body);
+
+    return await subscriptionResponse(
+      spreadsheetId,
+      sheetName,
+      query,
+      req.signal
+    );
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function runQuery(
+  req: Request,
+  spreadsheetId: string,
+  query: ParsedQuery,
+  searchParams: URLSearchParams
+) {
+  try {
+    const format = negotiateFormat(req, searchParams);
+    const metadata = await sheetsService.getMetadata(spreadsheetId);
+    if (!metadata.sheets.some((sheet) => sheet.title === query.sheet)) {
+      throw new QuerySyntaxException(
+        `Unknown sheet "${query.sheet}"`,
+        query.sheetPosition
+      );
+    }
+
+    const values = await sheetsService.readValues(spreadsheetId, query.sheet);
+    if (!values.length) {
+      return jsonResponse(
+        { error: "Sheet appears empty or unreadable" },
+        { status: 400 }
+      );
+    }
+
+    const headers = values[0] as string[];
+    const compiled = compileQuery(query, headers);
+    const etag = sheetsService.computeEtag(values);
+    const schema = sheetsService.getSchema(spreadsheetId, query.sheet, values);
+    let rows = sheetsService.normalizeRows(headers, values.slice(1), schema);
+    rows = filtersService.applyFilters(rows, compiled.where, schema.types);
+    rows = sheetsService.applyOptions(rows, compiled.options, schema.types);
+    const [pageRows, pagination] = sheetsService.applyPagination(
+      rows,
+      compiled.options
     );
+
+    const outputHeaders = compiled.columns.map((column) => column.as);
+    const projected = pageRows.map((row) =>
+      Object.fromEntries(
+        compiled.columns.map((column) => [column.as, row[column.field]])
+      )
+    );
+
+    if (format !== "json") {
+      return formatRows(format, query.sheet, outputHeaders, projected, {
+        status: 200,
+        headers: { ETag: formatEtag(etag, format) },
+      });
+    }
+
+    const response = {
+      sheet: query.sheet,
+      headers: outputHeaders,
+      rows: projected,
+      ...pagination,
+      // The equivalent body for POST /read, handy for turning a query into
+      // a saved request.
+      compiled: { where: compiled.where ?? null, options: compiled.options },
+    };
+
+    return jsonResponse(response, {
+      status: 200,
+      headers: { ETag: etag },
+    });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+const API_INFO = { title: "gsheet-bun", version: "1.0.0" };
+
+export async function apiDocument() {
+  try {
+    return jsonResponse(buildOpenApiDocument(routeDefinitions, API_INFO), {
+      status: 200,
+    });
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+export async function apiDocs() {
+  try {
+    return new Response(docsPage(API_INFO.title, "/openapi.json"), {
+      status: 200,
+      headers: { ...CORE_HEADERS, "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error: any) {
+    throw error;
   }
 }
@@ -1,3 +1,14 @@
+import { BadRequestException } from "../common/exceptions";
+import {
+  MAX_BULK_ROWS,
+  WATCH_INTERVAL_MS,
+  WATCH_MIN_INTERVAL_MS,
+} from "../constants";
+import type { ImportFormat, ImportMode } from "./importer";
+import type { BulkMode, SheetQueryOptions } from "./service";
+import type { LiveQuery } from "./subscriptions";
+import type { WebhookEventType } from "./watch";
+
 export function validateSheet(searchParams: URLSearchParams): string {
   const sheet = searchParams.get("sheet");
   if (!sheet) {
@@ -21,3 +32,361 @@ export function validateData(input: Record<string, any>): Record<string, any> {
 
   return input;
 }
+
+export function validateRows(input: any[]): Record<string, any>[] {
+  if (input.length === 0) {
+    throw new BadRequestException("Row array must not be empty");
+  }
+
+  if (input.length > MAX_BULK_ROWS) {
+    throw new BadRequestException(
+      `At most ${MAX_BULK_ROWS} rows can be written per request`
+    );
+  }
+
+  input.forEach((row, index) => {
+    if (!row || typeof row !== "object" || Array.isArray(row)) {
+      throw new BadRequestException(`Row ${index} must be an object`);
+    }
+    if (Object.keys(row).length === 0) {
+      throw new BadRequestException(
+        `Row ${index} must have at least one key-value pair`
+      );
+    }
+  });
+
+  return input;
+}
+
+export function validateBulkMode(searchParams: URLSearchParams): BulkMode {
+  const mode = (searchParams.get("mode") || "atomic").toLowerCase();
+  if (mode !== "atomic" && mode !== "partial") {
+    throw new BadRequestException("'mode' must be 'atomic' or 'partial'");
+  }
+  return mode;
+}
+
+export function validateKeys(
+  input: any,
+  searchParams: URLSearchParams
+): string[] {
+  const raw = input ?? searchParams.get("keys")?.split(",");
+  const keys = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+    .map((key: any) => String(key).trim())
+    .filter(Boolean);
+
+  if (keys.length === 0) {
+    throw new BadRequestException("'keys' must list at least one column");
+  }
+
+  return keys;
+}
+
+export function validateWhere(input: any): Record<string, any> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new BadRequestException("'where' is required");
+  }
+
+  if (Object.keys(input).length === 0) {
+    throw new BadRequestException("'where' must not be empty");
+  }
+
+  return input;
+}
+
+export function validateTitle(input: any, field: string = "title"): string {
+  if (typeof input !== "string" || !input.trim()) {
+    throw new BadRequestException(`'${field}' must be a non-empty string`);
+  }
+  if (input.trim().length > 100) {
+    throw new BadRequestException(`'${field}' must be at most 100 characters`);
+  }
+  return input.trim();
+}
+
+export function validateHeaders(input: any): string[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) {
+    throw new BadRequestException("'headers' must be an array of strings");
+  }
+
+  const headers = input.map((header, index) =>
+    validateTitle(header, `headers[${index}]`)
+  );
+  const duplicate = headers.find((h, i) => headers.indexOf(h) !== i);
+  if (duplicate) {
+    throw new BadRequestException(`Duplicate header "${duplicate}"`);
+  }
+  return headers;
+}
+
+export function validatePosition(
+  input: any,
+  field: string = "position"
+): number | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (!Number.isInteger(input) || input < 0) {
+    throw new BadRequestException(`'${field}' must be a non-negative integer`);
+  }
+  return input;
+}
+
+export function validateImportMode(searchParams: URLSearchParams): ImportMode {
+  const mode = (searchParams.get("mode") || "append").toLowerCase();
+  if (mode !== "append" && mode !== "replace" && mode !== "upsert") {
+    throw new BadRequestException(
+      "'mode' must be 'append', 'replace' or 'upsert'"
+    );
+  }
+  return mode;
+}
+
+// `?format=` or the body's Content-Type decide how the upload is parsed.
+export function validateImportFormat(
+  searchParams: URLSearchParams,
+  contentType: string | null
+): ImportFormat {
+  const format = searchParams.get("format")?.toLowerCase();
+  if (format === "csv" || format === "ndjson") return format;
+  if (format) {
+    throw new BadRequestException("'format' must be 'csv' or 'ndjson'");
+  }
+
+  const type = contentType?.split(";")[0]?.trim().toLowerCase();
+  if (type === "text/csv") return "csv";
+  if (
+    type === "application/x-ndjson" ||
+    type === "application/ndjson" ||
+    type === "application/jsonl"
+  ) {
+    return "ndjson";
+  }
+  throw new BadRequestException(
+    "Send text/csv or application/x-ndjson, or set 'format'"
+  );
+}
+
+export function validateMapping(
+  input: string | null
+): Record<string, string | null> | undefined {
+  if (!input) return undefined;
+
+  let mapping: any;
+  try {
+    mapping = JSON.parse(input);
+  } catch {
+    throw new BadRequestException("'mapping' must be a JSON object");
+  }
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    throw new BadRequestException("'mapping' must be a JSON object");
+  }
+  for (const [source, target] of Object.entries(mapping)) {
+    if (target !== null && typeof target !== "string") {
+      throw new BadRequestException(
+        `mapping: "${source}" must map to a column name or null`
+      );
+    }
+  }
+  return mapping;
+}
+
+export function validateInterval(input: any): number {
+  if (input === undefined || input === null) return WATCH_INTERVAL_MS;
+  if (!Number.isInteger(input) || input < WATCH_MIN_INTERVAL_MS) {
+    throw new BadRequestException(
+      `'intervalMs' must be an integer of at least ${WATCH_MIN_INTERVAL_MS}`
+    );
+  }
+  return input;
+}
+
+export function validateWebhookUrl(input: any): string {
+  let url: URL;
+  try {
+    url = new URL(String(input ?? ""));
+  } catch {
+    throw new BadRequestException("'url' must be an absolute URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new BadRequestException("'url' must use http or https");
+  }
+  return url.toString();
+}
+
+export function validateWebhookSecret(input: any): string | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== "string" || input.length < 16) {
+    throw new BadRequestException(
+      "'secret' must be a string of at least 16 characters"
+    );
+  }
+  return input;
+}
+
+export function validateEvents(input: any): WebhookEventType[] {
+  if (input === undefined || input === null) return ["*"];
+  const allowed = ["row.created", "row.updated", "row.deleted", "*"];
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    input.some((event) => !allowed.includes(event))
+  ) {
+    throw new BadRequestException(
+      `'events' must be a non-empty array of ${allowed.join(", ")}`
+    );
+  }
+  return [...new Set(input as WebhookEventType[])];
+}
+
+// GET subscriptions pass `where` and `options` as URL-encoded JSON.
+export function validateJsonParam(
+  searchParams: URLSearchParams,
+  name: string
+): any {
+  const raw = searchParams.get(name);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new BadRequestException(`'${name}' must be URL-encoded JSON`);
+  }
+}
+
+export function validateLiveQuery(input: Record<string, any>): LiveQuery {
+  const isObject = (value: any) =>
+    value && typeof value === "object" && !Array.isArray(value);
+  if (input.where !== undefined && !isObject(input.where)) {
+    throw new BadRequestException("'where' must be an object");
+  }
+  if (input.options !== undefined && !isObject(input.options)) {
+    throw new BadRequestException("'options' must be an object");
+  }
+
+  let key: string[] | undefined;
+  if (input.key !== undefined) {
+    const fields = Array.isArray(input.key) ? input.key : [input.key];
+    key = fields.map((field: any, index: number) =>
+      validateTitle(field, `key[${index}]`)
+    );
+    if (key.length === 0) {
+      throw new BadRequestException("'key' must list at least one column");
+    }
+  }
+
+  return { where: input.where, options: input.options, key };
+}
+
+export function validateQueryText(searchParams: URLSearchParams): string {
+  const text = searchParams.get("q")?.trim();
+  if (!text) {
+    throw new BadRequestException("'q' query param is required");
+  }
+  return text;
+}
+
+// Query params of GET /api/:spreadsheetId that are not column filters.
+const READ_PARAMS = new Set([
+  "sheet",
+  "format",
+  "search",
+  "uniqueBy",
+  "orderBy",
+  "page",
+  "limit",
+  "offset",
+  "cursor",
+  "stream",
+]);
+const LIST_OPERATORS = new Set([
+  "in",
+  "not_in",
+  "between",
+  "contains_any",
+  "contains_all",
+]);
+const VALUELESS_OPERATORS = new Set([
+  "is_null",
+  "is_not_null",
+  "empty",
+  "not_empty",
+]);
+
+// Turns `status[eq]=paid&amount[gte]=10&search=foo&uniqueBy=email` into the
+// `where`/`options` pair POST /read takes. A bare `field=value` means `eq`;
+// list operators take comma-separated values and `within_last` and
+// `within_next` an amount with an optional unit (`7 days`). Repeated filters
+// must all match.
+export function validateReadParams(searchParams: URLSearchParams): {
+  where?: Record<string, any>;
+  options: SheetQueryOptions;
+} {
+  const conditions: Record<string, any>[] = [];
+  const options: SheetQueryOptions = {};
+  const list = (value: string) =>
+    value
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean);
+  const count = (name: string, value: string) => {
+    const parsed = Number(value);
+    if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed)) {
+      throw new BadRequestException(`'${name}' must be a non-negative integer`);
+    }
+    return parsed;
+  };
+
+  for (const [name, value] of searchParams) {
+    if (READ_PARAMS.has(name)) {
+      switch (name) {
+        case "search":
+          options.search = { term: value };
+          break;
+        case "uniqueBy":
+          options.uniqueBy = list(value);
+          break;
+        case "orderBy":
+          options.orderBy = list(value);
+          break;
+        case "page":
+        case "limit":
+        case "offset":
+          options[name] = count(name, value);
+          break;
+        case "cursor":
+          options.cursor = value;
+          break;
+        // Streamed responses can't carry the validators GET promises.
+        case "stream":
+          if (value.trim().toLowerCase() !== "false") {
+            throw new BadRequestException(
+              "'stream' is only supported by POST /api/{spreadsheetId}/read"
+            );
+          }
+          break;
+      }
+      continue;
+    }
+
+    const match = name.match(/^(.+)\[([A-Za-z_]+)\]$/);
+    const field = match ? match[1]! : name;
+    const operator = match ? match[2]!.toLowerCase() : "eq";
+    if (VALUELESS_OPERATORS.has(operator)) {
+      conditions.push({ field, operator });
+    } else if (LIST_OPERATORS.has(operator)) {
+      conditions.push({ field, operator, values: list(value) });
+    } else if (operator === "within_last" || operator === "within_next") {
+      const [amount, unit] = value.trim().split(/\s+/);
+      conditions.push({ field, operator, value: amount, unit: unit ?? "days" });
+    } else {
+      conditions.push({ field, operator, value });
+    }
+  }
+
+  const where =
+    conditions.length === 0
+      ? undefined
+      : conditions.length === 1
+      ? conditions[0]
+      : { and: conditions };
+  return { where, options };
+}
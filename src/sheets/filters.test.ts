@@ -0,0 +1,276 @@
+import { describe, expect, setSystemTime, test } from "bun:test";
+import { BadRequestException } from "../common/exceptions";
+import { FiltersService } from "./filters";
+
+const filters = new FiltersService();
+
+const rows = [
+  { id: 1, name: "Alice", city: "Paris", amount: "120", tags: "red, green" },
+  { id: 2, name: "bob", city: "Berlin", amount: "6", tags: "blue" },
+  { id: 3, name: "Carol", city: "", amount: "", tags: "green" },
+  { id: 4, name: "dave_1", city: "Paris", amount: "45.5", tags: "" },
+];
+
+const ids = (where: any, types?: Record<string, any>) =>
+  filters.applyFilters(rows, where, types).map((row) => row.id);
+
+// The message of the BadRequestException thrown for `where`.
+const errorOf = (where: any): string => {
+  try {
+    filters.buildPredicate(where);
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(BadRequestException);
+    return error.response.message;
+  }
+  throw new Error("expected the where clause to be rejected");
+};
+
+describe("conditions", () => {
+  test("eq is the default operator and compares numbers as numbers", () => {
+    expect(ids({ field: "amount", value: 120 })).toEqual([1]);
+    expect(ids({ field: "amount", value: "120.0" })).toEqual([1]);
+  });
+
+  test("ordering comparisons", () => {
+    expect(ids({ field: "amount", operator: "gt", value: 10 })).toEqual([1, 4]);
+    expect(ids({ field: "amount", operator: "gte", value: 45.5 })).toEqual([
+      1, 4,
+    ]);
+  });
+
+  test("between, in and not_in", () => {
+    expect(
+      ids({ field: "amount", operator: "between", values: [5, 50] })
+    ).toEqual([2, 4]);
+    expect(ids({ field: "city", operator: "in", values: ["Paris"] })).toEqual([
+      1, 4,
+    ]);
+    expect(
+      ids({ field: "city", operator: "not_in", values: ["Paris", "Berlin"] })
+    ).toEqual([3]);
+  });
+
+  test("null and empty checks", () => {
+    expect(ids({ field: "city", operator: "is_null" })).toEqual([3]);
+    expect(ids({ field: "amount", operator: "is_not_null" })).toEqual([
+      1, 2, 4,
+    ]);
+    expect(ids({ field: "tags", operator: "empty" })).toEqual([4]);
+  });
+
+  test("like is a case-insensitive substring match", () => {
+    expect(ids({ field: "name", operator: "like", value: "O" })).toEqual([
+      2, 3,
+    ]);
+    expect(
+      ids({ field: "name", operator: "like", value: "O", caseSensitive: true })
+    ).toEqual([]);
+  });
+
+  test("ilike uses SQL wildcards and backslash escapes", () => {
+    expect(ids({ field: "name", operator: "ilike", value: "a%" })).toEqual([1]);
+    expect(ids({ field: "name", operator: "ilike", value: "_ob" })).toEqual([
+      2,
+    ]);
+    expect(
+      ids({ field: "name", operator: "ilike", value: "dave\\_%" })
+    ).toEqual([4]);
+    expect(ids({ field: "name", operator: "ilike", value: "dave%1" })).toEqual([
+      4,
+    ]);
+    expect(
+      ids({
+        field: "name",
+        operator: "ilike",
+        value: "B%",
+        caseSensitive: true,
+      })
+    ).toEqual([]);
+  });
+
+  test("starts_with, ends_with and regex", () => {
+    expect(
+      ids({ field: "city", operator: "starts_with", value: "pa" })
+    ).toEqual([1, 4]);
+    expect(ids({ field: "name", operator: "ends_with", value: "OL" })).toEqual([
+      3,
+    ]);
+    expect(ids({ field: "name", operator: "regex", value: "^[ab]" })).toEqual([
+      1, 2,
+    ]);
+  });
+
+  test("contains_any and contains_all read comma-separated cells", () => {
+    expect(
+      ids({ field: "tags", operator: "contains_any", value: "green,blue" })
+    ).toEqual([1, 2, 3]);
+    expect(
+      ids({ field: "tags", operator: "contains_all", values: ["green", "red"] })
+    ).toEqual([1]);
+  });
+
+  test("declared types decide how values compare", () => {
+    // As strings "6" sorts after "45.5".
+    expect(
+      ids(
+        { field: "amount", operator: "gt", value: "45.5" },
+        { amount: "string" }
+      )
+    ).toEqual([2]);
+    expect(
+      ids(
+        { field: "amount", operator: "gt", value: "45.5" },
+        { amount: "number" }
+      )
+    ).toEqual([1]);
+  });
+});
+
+describe("groups", () => {
+  test("and, or and not combine", () => {
+    expect(
+      ids({
+        and: [
+          { field: "city", value: "Paris" },
+          { field: "amount", operator: "gt", value: 100 },
+        ],
+      })
+    ).toEqual([1]);
+    expect(
+      ids({
+        or: [
+          { field: "id", value: 2 },
+          { field: "id", value: 3 },
+        ],
+      })
+    ).toEqual([2, 3]);
+    expect(ids({ not: { field: "city", value: "Paris" } })).toEqual([2, 3]);
+  });
+
+  test("every part of a node must hold", () => {
+    expect(
+      ids({
+        field: "city",
+        value: "Paris",
+        or: [
+          { field: "id", value: 4 },
+          { field: "id", value: 2 },
+        ],
+      })
+    ).toEqual([4]);
+  });
+
+  test("groups nest", () => {
+    expect(
+      ids({
+        or: [
+          {
+            and: [
+              { field: "city", value: "Paris" },
+              { not: { field: "id", value: 1 } },
+            ],
+          },
+          { field: "name", operator: "ilike", value: "c%" },
+        ],
+      })
+    ).toEqual([3, 4]);
+  });
+
+  test("empty and/or lists and an empty tree place no constraint", () => {
+    expect(ids({ and: [] })).toEqual([1, 2, 3, 4]);
+    expect(ids({ or: [] })).toEqual([1, 2, 3, 4]);
+    expect(ids({})).toEqual([1, 2, 3, 4]);
+    expect(ids(null)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("validation", () => {
+  test("errors name the path of the offending node", () => {
+    expect(errorOf({ and: [{ field: "id", value: 1 }, { fild: "x" }] })).toBe(
+      'Invalid where clause at where.and[1]: unknown key "fild"'
+    );
+    expect(errorOf({ or: [{ and: [{}] }] })).toBe(
+      "Invalid where clause at where.or[0].and[0]: expected a condition or an and/or/not group"
+    );
+    expect(errorOf({ not: [5] })).toBe(
+      "Invalid where clause at where.not[0]: expected an object"
+    );
+  });
+
+  test("operators and operands are checked up front", () => {
+    expect(errorOf({ field: "id", operator: "near" })).toContain(
+      'unknown operator "near"'
+    );
+    expect(errorOf({ field: "id", operator: "between", value: [1] })).toContain(
+      '"between" expects a [low, high] pair'
+    );
+    expect(errorOf({ field: "id", operator: "in", values: "1" })).toContain(
+      '"values" must be an array'
+    );
+    expect(
+      errorOf({ field: "id", operator: "in_period", value: "soon" })
+    ).toContain('unknown period "soon"');
+    expect(
+      errorOf({ field: "name", operator: "regex", value: "(a)\\1" })
+    ).toContain("invalid regex");
+    expect(
+      errorOf({ field: "name", operator: "regex", value: "a".repeat(201) })
+    ).toContain("regex longer than 200 characters");
+  });
+
+  test("nesting is limited to 32 levels", () => {
+    let deep: any = { field: "id", value: 1 };
+    for (let i = 0; i < 32; i++) deep = { not: deep };
+    expect(() => filters.buildPredicate(deep)).not.toThrow();
+
+    deep = { not: deep };
+    expect(errorOf(deep)).toContain("nesting deeper than 32 levels");
+  });
+});
+
+describe("regex", () => {
+  test("patterns that backtrack badly in JS run in linear time", () => {
+    const subject = [{ id: 1, name: "a".repeat(5000) + "!" }];
+    const started = Date.now();
+    for (const value of ["^((a+))+$", "^(a|a)*$", "(x+x+)+y"]) {
+      expect(
+        filters.applyFilters(subject, {
+          field: "name",
+          operator: "regex",
+          value,
+        })
+      ).toEqual([]);
+    }
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("relative dates", () => {
+  test("periods and windows are measured in UTC", () => {
+    const zone = process.env.TZ;
+    process.env.TZ = "Asia/Tokyo";
+    setSystemTime(new Date("2024-03-15T12:00:00Z"));
+    try {
+      const dated = [
+        { id: 1, at: "2024-02-29 23:30" },
+        { id: 2, at: "2024-03-01" },
+        { id: 3, at: "2024-03-11T00:00:00Z" },
+        { id: 4, at: "2024-03-10 23:59" },
+        { id: 5, at: "2024-03-15 09:00" },
+      ];
+      const ids = (value: any, operator = "in_period") =>
+        filters
+          .applyFilters(dated, { field: "at", operator, value })
+          .map((row) => row.id);
+
+      expect(ids("this_month")).toEqual([2, 3, 4, 5]);
+      expect(ids("last_month")).toEqual([1]);
+      expect(ids("this_week")).toEqual([3, 5]);
+      expect(ids("today")).toEqual([5]);
+      expect(ids(5, "within_last")).toEqual([3, 4, 5]);
+    } finally {
+      setSystemTime();
+      process.env.TZ = zone;
+    }
+  });
+});
@@ -1,26 +1,104 @@
 // src/services/filters.ts
+import { RE2JS } from "re2js";
+import { BadRequestException } from "../common/exceptions";
+import { parseDate } from "../utils/dates";
+import type { ColumnType } from "./schema";
+
 type Scalar = string | number | boolean | Date | null;
 type RowDict = Record<string, any>;
+type Predicate = (row: RowDict) => boolean;
+type ColumnTypes = Record<string, ColumnType>;
 
 type Condition = {
   field?: string;
   operator?: string;
   value?: any;
   values?: any[];
+  unit?: string;
+  caseSensitive?: boolean;
 };
 
-type WhereTree = Condition & {
-  and?: Condition | Condition[];
-  or?: Condition | Condition[];
+// A where node is a condition, a boolean group, or both. Every part present
+// on a node must hold: `{ field, and, or, not }` matches when the condition
+// matches AND all `and` children match AND at least one `or` child matches
+// AND the `not` child does not match. Groups nest to any depth.
+export type WhereTree = Condition & {
+  and?: WhereTree | WhereTree[];
+  or?: WhereTree | WhereTree[];
+  not?: WhereTree | WhereTree[];
 };
 
+const NODE_KEYS = new Set([
+  "field",
+  "operator",
+  "value",
+  "values",
+  "unit",
+  "caseSensitive",
+  "and",
+  "or",
+  "not",
+]);
+const OPERATORS = new Set([
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "like",
+  "between",
+  "in",
+  "not_in",
+  "is_null",
+  "is_not_null",
+  "ilike",
+  "starts_with",
+  "ends_with",
+  "regex",
+  "contains_any",
+  "contains_all",
+  "empty",
+  "not_empty",
+  "within_last",
+  "within_next",
+  "in_period",
+]);
+const MAX_WHERE_DEPTH = 32;
+
+// `regex` runs on RE2 (no backtracking), so matching stays linear in the
+// cell length whatever the pattern; backreferences and lookarounds are not
+// supported. Patterns and cells are still capped to bound the work.
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_SUBJECT = 10_000;
+
+const DATE_UNITS = new Set([
+  "minutes",
+  "hours",
+  "days",
+  "weeks",
+  "months",
+  "years",
+]);
+const DATE_PERIODS = new Set([
+  "today",
+  "yesterday",
+  "tomorrow",
+  "this_week",
+  "last_week",
+  "this_month",
+  "last_month",
+  "this_year",
+  "last_year",
+]);
+
 const asArray = <T>(input?: T | T[]): T[] => {
   if (!input) return [];
   return Array.isArray(input) ? input : [input];
 };
 
 export class FiltersService {
-  private isNullish(value: any): boolean {
+  isNullish(value: any): boolean {
     return value === null || value === undefined || value === "";
   }
 
@@ -35,7 +113,7 @@ export class FiltersService {
     return null;
   }
 
-  private toNumber(value: any): number | null {
+  toNumber(value: any): number | null {
     if (typeof value === "number") return value;
     if (typeof value === "string") {
       const num = parseFloat(value.trim());
@@ -46,23 +124,63 @@ export class FiltersService {
 
   private toDateTime(value: any): Date | null {
     if (value instanceof Date) return value;
-    if (typeof value === "string") {
-      const date = new Date(value);
-      return isNaN(date.getTime()) ? null : date;
-    }
+    if (typeof value === "string") return parseDate(value);
     return null;
   }
 
-  private coercePair(lhs: any, rhs: any): [Scalar, Scalar, string] {
+  // Coerces both sides to a column's declared type. Returns null when either
+  // side does not fit, so the caller can fall back to guessing.
+  private coerceAs(
+    lhs: any,
+    rhs: any,
+    type: ColumnType
+  ): [Scalar, Scalar, string] | null {
+    switch (type) {
+      case "number": {
+        const ln = this.toNumber(lhs);
+        const rn = this.toNumber(rhs);
+        return ln !== null && rn !== null ? [ln, rn, "number"] : null;
+      }
+      case "boolean": {
+        const lb = this.toBool(lhs);
+        const rb = this.toBool(rhs);
+        return lb !== null && rb !== null ? [lb, rb, "bool"] : null;
+      }
+      case "date":
+      case "datetime": {
+        const ldt = this.toDateTime(lhs);
+        const rdt = this.toDateTime(rhs);
+        return ldt && rdt ? [ldt.getTime(), rdt.getTime(), "datetime"] : null;
+      }
+      case "json": {
+        const text = (v: any) =>
+          typeof v === "object" && v !== null ? JSON.stringify(v) : String(v);
+        return [text(lhs), text(rhs), "string"];
+      }
+      default:
+        return [String(lhs), String(rhs), "string"];
+    }
+  }
+
+  private coercePair(
+    lhs: any,
+    rhs: any,
+    type?: ColumnType
+  ): [Scalar, Scalar, string] {
     if (this.isNullish(lhs) && this.isNullish(rhs)) {
       return [null, null, "null"];
     }
 
-    // Try datetime
+    if (type && !this.isNullish(lhs) && !this.isNullish(rhs)) {
+      const typed = this.coerceAs(lhs, rhs, type);
+      if (typed) return typed;
+    }
+
+    // Try datetime (compared as epoch millis so eq/ne work)
     const ldt = this.toDateTime(lhs);
     const rdt = this.toDateTime(rhs);
     if (ldt && rdt) {
-      return [ldt, rdt, "datetime"];
+      return [ldt.getTime(), rdt.getTime(), "datetime"];
     }
 
     // Try number
@@ -87,8 +205,30 @@ export class FiltersService {
     ];
   }
 
-  private compare(lhs: any, rhs: any, op: string): boolean {
-    const [a, b, kind] = this.coercePair(lhs, rhs);
+  // Three-way comparison for sorting, using the same coercion as filters.
+  // Empty cells sort after every value in either direction.
+  compareValues(
+    lhs: any,
+    rhs: any,
+    direction: "asc" | "desc" = "asc",
+    type?: ColumnType
+  ): number {
+    const lNull = this.isNullish(lhs);
+    const rNull = this.isNullish(rhs);
+    if (lNull || rNull) {
+      return lNull === rNull ? 0 : lNull ? 1 : -1;
+    }
+
+    const [a, b] = this.coercePair(lhs, rhs, type);
+    let result = 0;
+    if (a !== null && b !== null) {
+      result = a < b ? -1 : a > b ? 1 : 0;
+    }
+    return direction === "desc" ? -result : result;
+  }
+
+  private compare(lhs: any, rhs: any, op: string, type?: ColumnType): boolean {
+    const [a, b, kind] = this.coercePair(lhs, rhs, type);
 
     const isEqualityOp = op === "eq" || op === "ne";
     if (a === null || b === null) {
@@ -121,9 +261,9 @@ export class FiltersService {
     return String(cell).toLowerCase().includes(String(pattern).toLowerCase());
   }
 
-  private between(cell: any, low: any, high: any): boolean {
-    const [a1, b1, k1] = this.coercePair(cell, low);
-    const [a2, b2, k2] = this.coercePair(cell, high);
+  private between(cell: any, low: any, high: any, type?: ColumnType): boolean {
+    const [a1, b1, k1] = this.coercePair(cell, low, type);
+    const [a2, b2, k2] = this.coercePair(cell, high, type);
 
     if (
       a1 === null ||
@@ -138,11 +278,152 @@ export class FiltersService {
     return a1 >= b1 && a2 <= b2;
   }
 
-  private inList(cell: any, options: any[]): boolean {
-    return options.some((opt) => this.compare(cell, opt, "eq"));
+  private inList(cell: any, options: any[], type?: ColumnType): boolean {
+    return options.some((opt) => this.compare(cell, opt, "eq", type));
+  }
+
+  private affix(
+    cell: any,
+    affix: any,
+    where: "start" | "end",
+    caseSensitive: boolean
+  ): boolean {
+    if (this.isNullish(cell) || this.isNullish(affix)) return false;
+    let text = String(cell);
+    let part = String(affix);
+    if (!caseSensitive) {
+      text = text.toLowerCase();
+      part = part.toLowerCase();
+    }
+    return where === "start" ? text.startsWith(part) : text.endsWith(part);
   }
 
-  buildPredicate(payload: any): (row: RowDict) => boolean {
+  // Compares a comma-separated cell ("red, green") against a list of tokens.
+  private containsTokens(
+    cell: any,
+    tokens: any[],
+    mode: "any" | "all",
+    caseSensitive: boolean
+  ): boolean {
+    if (this.isNullish(cell)) return false;
+    const norm = (v: any) =>
+      caseSensitive ? String(v).trim() : String(v).trim().toLowerCase();
+    const present = new Set(String(cell).split(",").map(norm));
+    const wanted = tokens.map(norm).filter(Boolean);
+    if (wanted.length === 0) return false;
+    return mode === "any"
+      ? wanted.some((token) => present.has(token))
+      : wanted.every((token) => present.has(token));
+  }
+
+  private isEmpty(cell: any): boolean {
+    return this.isNullish(cell) || String(cell).trim() === "";
+  }
+
+  private shiftDate(date: Date, amount: number, unit: string): Date {
+    const shifted = new Date(date.getTime());
+    switch (unit) {
+      case "minutes":
+        shifted.setUTCMinutes(shifted.getUTCMinutes() + amount);
+        break;
+      case "hours":
+        shifted.setUTCHours(shifted.getUTCHours() + amount);
+        break;
+      case "days":
+        shifted.setUTCDate(shifted.getUTCDate() + amount);
+        break;
+      case "weeks":
+        shifted.setUTCDate(shifted.getUTCDate() + amount * 7);
+        break;
+      case "months":
+        shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+        break;
+      case "years":
+        shifted.setUTCFullYear(shifted.getUTCFullYear() + amount);
+        break;
+    }
+    return shifted;
+  }
+
+  // Half-open [start, end) bounds of a calendar period in UTC, the zone
+  // dates without an offset are read in. Weeks start on Monday.
+  private periodBounds(period: string, now: Date = new Date()): [Date, Date] {
+    const day = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    const monday = this.shiftDate(day, -((day.getUTCDay() + 6) % 7), "days");
+    const month = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+    );
+    const year = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+
+    switch (period) {
+      case "yesterday":
+        return [this.shiftDate(day, -1, "days"), day];
+      case "tomorrow":
+        return [this.shiftDate(day, 1, "days"), this.shiftDate(day, 2, "days")];
+      case "this_week":
+        return [monday, this.shiftDate(monday, 1, "weeks")];
+      case "last_week":
+        return [this.shiftDate(monday, -1, "weeks"), monday];
+      case "this_month":
+        return [month, this.shiftDate(month, 1, "months")];
+      case "last_month":
+        return [this.shiftDate(month, -1, "months"), month];
+      case "this_year":
+        return [year, this.shiftDate(year, 1, "years")];
+      case "last_year":
+        return [this.shiftDate(year, -1, "years"), year];
+      default:
+        return [day, this.shiftDate(day, 1, "days")];
+    }
+  }
+
+  private relativeDate(cell: any, condition: Condition, op: string): boolean {
+    const date = this.toDateTime(cell);
+    if (!date) return false;
+
+    const now = new Date();
+    let start: Date;
+    let end: Date;
+    if (op === "in_period") {
+      [start, end] = this.periodBounds(String(condition.value), now);
+      return date >= start && date < end;
+    }
+
+    const amount = Number(condition.value);
+    const unit = condition.unit ?? "days";
+    if (op === "within_last") {
+      [start, end] = [this.shiftDate(now, -amount, unit), now];
+    } else {
+      [start, end] = [now, this.shiftDate(now, amount, unit)];
+    }
+    return date >= start && date <= end;
+  }
+
+  // SQL LIKE: % matches any run of characters, _ exactly one, and a
+  // backslash makes the next character literal.
+  private likePatternToRegex(pattern: string, caseSensitive: boolean): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+      let ch = pattern[i]!;
+      if (ch === "\\" && i + 1 < pattern.length) {
+        ch = pattern[++i]!;
+      } else if (ch === "%") {
+        source += ".*";
+        continue;
+      } else if (ch === "_") {
+        source += ".";
+        continue;
+      }
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+    return new RegExp(`^${source}$`, caseSensitive ? "s" : "is");
+  }
+
+  // `types` maps column names to their schema type; comparisons on those
+  // columns coerce to that type instead of guessing from the values.
+  buildPredicate(payload: any, types: ColumnTypes = {}): Predicate {
     const where: WhereTree | undefined = (payload?.where || payload) as
       | WhereTree
       | undefined;
@@ -150,63 +431,235 @@ export class FiltersService {
       return () => true;
     }
 
-    const andConds = asArray(where.and);
-    const orConds = asArray(where.or);
+    if (!Array.isArray(where) && Object.keys(where).length === 0) {
+      return () => true;
+    }
+
+    return this.compileNode(where, "where", 0, types);
+  }
+
+  private invalid(path: string, reason: string): BadRequestException {
+    return new BadRequestException(
+      `Invalid where clause at ${path}: ${reason}`
+    );
+  }
+
+  private compileGroup(
+    input: any,
+    path: string,
+    depth: number,
+    types: ColumnTypes
+  ): Predicate[] {
+    return asArray(input).map((node, i) =>
+      this.compileNode(
+        node,
+        Array.isArray(input) ? `${path}[${i}]` : path,
+        depth + 1,
+        types
+      )
+    );
+  }
+
+  // Validates the tree once and returns a closure, so rows are matched without
+  // re-walking or re-checking the payload.
+  private compileNode(
+    node: any,
+    path: string,
+    depth: number,
+    types: ColumnTypes
+  ): Predicate {
+    if (depth > MAX_WHERE_DEPTH) {
+      throw this.invalid(path, `nesting deeper than ${MAX_WHERE_DEPTH} levels`);
+    }
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      throw this.invalid(path, "expected an object");
+    }
+
+    const unknownKey = Object.keys(node).find((key) => !NODE_KEYS.has(key));
+    if (unknownKey) {
+      throw this.invalid(path, `unknown key "${unknownKey}"`);
+    }
+
+    const parts: Predicate[] = [];
+
+    if (node.field !== undefined || node.operator !== undefined) {
+      parts.push(this.compileCondition(node, path, types));
+    }
+
+    if (node.and !== undefined) {
+      const children = this.compileGroup(node.and, `${path}.and`, depth, types);
+      parts.push((row) => children.every((match) => match(row)));
+    }
+
+    if (node.or !== undefined) {
+      const children = this.compileGroup(node.or, `${path}.or`, depth, types);
+      // An empty `or` list places no constraint, like an empty `and` list.
+      parts.push((row) =>
+        children.length === 0 ? true : children.some((match) => match(row))
+      );
+    }
+
+    if (node.not !== undefined) {
+      const children = this.compileGroup(node.not, `${path}.not`, depth, types);
+      parts.push((row) => !children.every((match) => match(row)));
+    }
 
-    return (row: RowDict): boolean => {
-      let andOk = true;
-      if (andConds.length > 0) {
-        andOk = andConds.every((cond) => this.matchCondition(row, cond));
+    if (parts.length === 0) {
+      throw this.invalid(path, "expected a condition or an and/or/not group");
+    }
+
+    return parts.length === 1
+      ? parts[0]!
+      : (row) => parts.every((match) => match(row));
+  }
+
+  private compileCondition(
+    condition: Condition,
+    path: string,
+    types: ColumnTypes
+  ): Predicate {
+    const { field, operator = "eq", value, values } = condition;
+    if (!field || typeof field !== "string") {
+      throw this.invalid(path, '"field" must be a non-empty string');
+    }
+
+    const op = String(operator).toLowerCase();
+    if (!OPERATORS.has(op)) {
+      throw this.invalid(path, `unknown operator "${operator}"`);
+    }
+
+    if (op === "between") {
+      const pair = values || value;
+      if (!Array.isArray(pair) || pair.length < 2) {
+        throw this.invalid(path, '"between" expects a [low, high] pair');
       }
+    }
+
+    if (values !== undefined && !Array.isArray(values)) {
+      throw this.invalid(path, '"values" must be an array');
+    }
+
+    const caseSensitive = condition.caseSensitive === true;
 
-      let orOk = orConds.length === 0;
-      if (orConds.length > 0) {
-        orOk = orConds.some((cond) => this.matchCondition(row, cond));
+    if (op === "ilike" || op === "regex") {
+      if (typeof value !== "string" || value === "") {
+        throw this.invalid(path, `"${op}" expects a non-empty string value`);
       }
 
-      if (andConds.length > 0 && orConds.length > 0) {
-        return andOk || orOk;
+      let pattern: RegExp | RE2JS;
+      if (op === "ilike") {
+        pattern = this.likePatternToRegex(value, caseSensitive);
+      } else {
+        if (value.length > MAX_REGEX_LENGTH) {
+          throw this.invalid(
+            path,
+            `regex longer than ${MAX_REGEX_LENGTH} characters`
+          );
+        }
+        try {
+          pattern = RE2JS.compile(
+            value,
+            caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE
+          );
+        } catch (error: any) {
+          throw this.invalid(path, `invalid regex (${error?.message})`);
+        }
+      }
+
+      return (row) => {
+        const cell = row[field];
+        if (this.isNullish(cell)) return false;
+        return pattern.test(String(cell).slice(0, MAX_REGEX_SUBJECT));
+      };
+    }
+
+    if (op === "within_last" || op === "within_next") {
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw this.invalid(path, `"${op}" expects a non-negative number`);
+      }
+      if (condition.unit !== undefined && !DATE_UNITS.has(condition.unit)) {
+        throw this.invalid(path, `unknown unit "${condition.unit}"`);
       }
-      return andConds.length > 0 ? andOk : orOk;
-    };
+    }
+
+    if (op === "in_period" && !DATE_PERIODS.has(String(value))) {
+      throw this.invalid(path, `unknown period "${value}"`);
+    }
+
+    const type = types[field];
+    return (row) => this.matchCondition(row, condition, type);
   }
 
-  private matchCondition(row: RowDict, condition: Condition): boolean {
+  private matchCondition(
+    row: RowDict,
+    condition: Condition,
+    type?: ColumnType
+  ): boolean {
     if (!condition || typeof condition !== "object") return false;
 
     const { field, operator = "eq", value, values } = condition;
     if (!field) return false;
     const cell = row[field];
     const op = String(operator).toLowerCase();
+    const caseSensitive = condition.caseSensitive === true;
 
     switch (op) {
       case "is_null":
         return this.isNullish(cell);
       case "is_not_null":
         return !this.isNullish(cell);
+      case "empty":
+        return this.isEmpty(cell);
+      case "not_empty":
+        return !this.isEmpty(cell);
       case "like":
-        return this.like(cell, value);
+        return caseSensitive
+          ? !this.isNullish(cell) &&
+              !this.isNullish(value) &&
+              String(cell).includes(String(value))
+          : this.like(cell, value);
+      case "starts_with":
+        return this.affix(cell, value, "start", caseSensitive);
+      case "ends_with":
+        return this.affix(cell, value, "end", caseSensitive);
+      case "contains_any":
+      case "contains_all": {
+        const tokens =
+          values ||
+          (Array.isArray(value) ? value : String(value ?? "").split(","));
+        return this.containsTokens(
+          cell,
+          tokens,
+          op === "contains_any" ? "any" : "all",
+          caseSensitive
+        );
+      }
+      case "within_last":
+      case "within_next":
+      case "in_period":
+        return this.relativeDate(cell, condition, op);
       case "between": {
         const pair = values || value;
         if (Array.isArray(pair) && pair.length >= 2) {
-          return this.between(cell, pair[0], pair[1]);
+          return this.between(cell, pair[0], pair[1], type);
         }
         return false;
       }
       case "in":
       case "not_in": {
         const opts = values || (Array.isArray(value) ? value : [value]);
-        const inResult = this.inList(cell, opts);
+        const inResult = this.inList(cell, opts, type);
         return op === "in" ? inResult : !inResult;
       }
       default:
-        return this.compare(cell, value, op);
+        return this.compare(cell, value, op, type);
     }
   }
 
-  applyFilters(rows: RowDict[], where?: any): RowDict[] {
+  applyFilters(rows: RowDict[], where?: any, types?: ColumnTypes): RowDict[] {
     if (!where) return rows;
-    const predicate = this.buildPredicate(where);
+    const predicate = this.buildPredicate(where, types);
     return rows.filter(predicate);
   }
 }
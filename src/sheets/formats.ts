@@ -0,0 +1,107 @@
+import { BadRequestException } from "../common/exceptions";
+import { toExportCsv } from "../utils/csv";
+import { fileResponse } from "../utils/index";
+import { toXlsx } from "../utils/xlsx";
+
+export type OutputFormat = "json" | "csv" | "ndjson" | "xlsx";
+
+const MEDIA_TYPES: Record<OutputFormat, string> = {
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const ACCEPTED_TYPES: Record<string, OutputFormat> = {
+  "application/json": "json",
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/ndjson": "ndjson",
+  "application/jsonl": "ndjson",
+  [MEDIA_TYPES.xlsx]: "xlsx",
+};
+
+// ETag of one representation of a read. JSON keeps the sheet's own tag;
+// other formats append their name, so a cache never answers a CSV request
+// with a JSON body (or the reverse) on a matching If-None-Match.
+export function formatEtag(etag: string, format: OutputFormat): string {
+  return format === "json" ? etag : `${etag.slice(0, -1)}-${format}"`;
+}
+
+// `?format=` wins over the Accept header; anything unrecognised in Accept
+// (including */*) gets the fallback.
+export function negotiateFormat(
+  req: Request,
+  searchParams: URLSearchParams,
+  fallback: OutputFormat = "json"
+): OutputFormat {
+  const format = searchParams.get("format")?.toLowerCase();
+  if (format) {
+    if (!(format in MEDIA_TYPES)) {
+      throw new BadRequestException(
+        `'format' must be one of ${Object.keys(MEDIA_TYPES).join(", ")}`
+      );
+    }
+    return format as OutputFormat;
+  }
+
+  const ranges = (req.headers.get("accept") ?? "")
+    .split(",")
+    .map((part, order) => {
+      const [type = "", ...params] = part.split(";").map((p) => p.trim());
+      const q = params.find((p) => p.startsWith("q="));
+      return { type: type.toLowerCase(), q: q ? Number(q.slice(2)) : 1, order };
+    })
+    .filter((range) => range.type && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.order - b.order);
+
+  for (const range of ranges) {
+    const match = ACCEPTED_TYPES[range.type];
+    if (match) return match;
+  }
+  return fallback;
+}
+
+// Download name for a non-JSON read of `sheetName`, e.g. "Orders.csv".
+export function formatFilename(
+  sheetName: string,
+  format: OutputFormat
+): string {
+  return `${sheetName}.${format}`;
+}
+
+// Renders rows for a non-JSON format as a download named after the sheet.
+export function formatRows(
+  format: Exclude<OutputFormat, "json">,
+  sheetName: string,
+  headers: string[],
+  rows: Record<string, any>[],
+  init?: ResponseInit
+): Response {
+  const grid = rows.map((row) => headers.map((header) => row[header]));
+  const filename = formatFilename(sheetName, format);
+
+  switch (format) {
+    case "csv":
+      return fileResponse(
+        toExportCsv([headers, ...grid]) + "\r\n",
+        MEDIA_TYPES.csv,
+        filename,
+        init
+      );
+    case "ndjson":
+      return fileResponse(
+        rows.map((row) => JSON.stringify(row) + "\n").join(""),
+        MEDIA_TYPES.ndjson,
+        filename,
+        init
+      );
+    case "xlsx":
+      return fileResponse(
+        toXlsx(sheetName, [headers, ...grid]),
+        MEDIA_TYPES.xlsx,
+        filename,
+        init
+      );
+  }
+}
@@ -0,0 +1,358 @@
+import {
+  BadRequestException,
+  InternalServerErrorException,
+  type FieldError,
+} from "../common/exceptions";
+import {
+  IMPORT_CHUNK_ROWS,
+  IMPORT_MAX_ISSUES,
+  IMPORT_MAX_LINE_CHARS,
+} from "../constants";
+import { CsvParser } from "../utils/csv";
+import {
+  GoogleSheetsService,
+  type BulkRowResult,
+  type SheetSnapshot,
+  type UpsertRowResult,
+} from "./service";
+
+type RowDict = Record<string, any>;
+
+export type ImportMode = "append" | "replace" | "upsert";
+export type ImportFormat = "csv" | "ndjson";
+
+export type ImportOptions = {
+  mode: ImportMode;
+  format: ImportFormat;
+  // Required for upsert: sheet headers forming the row key.
+  keys?: string[];
+  // Source column -> sheet header. null drops the column. Unmapped source
+  // columns are kept when a sheet header has the same name.
+  mapping?: Record<string, string | null>;
+  strict?: boolean;
+  chunkSize?: number;
+};
+
+export type ImportIssue = {
+  // NDJSON: 1-based line number. CSV: 1-based record number, counting the
+  // header as record 1 (a quoted field may span several physical lines).
+  line: number;
+  status: "skipped" | "invalid";
+  reason: string;
+  errors?: FieldError[];
+};
+
+export type ImportReport = {
+  sheet: string;
+  mode: ImportMode;
+  format: ImportFormat;
+  received: number;
+  // replace: existing data rows deleted before the import was written.
+  removed: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  invalid: number;
+  ignoredColumns: string[];
+  issues: ImportIssue[];
+  issuesTruncated: boolean;
+};
+
+type SourceRecord =
+  | { line: number; data: RowDict }
+  | { line: number; skip: string };
+
+export class ImportService {
+  constructor(
+    private sheetsService: GoogleSheetsService = GoogleSheetsService.getInstance()
+  ) {}
+
+  // Reads the body as it arrives and writes every `chunkSize` accepted
+  // records with one bulk call, so memory stays bounded by the chunk size.
+  // Rows failing validation are reported and skipped (bulk "partial" mode).
+  // `replace` validates each chunk before touching the sheet and deletes the
+  // old data rows only with the first chunk that has valid rows, so an import
+  // without any leaves the sheet untouched. A failure after that point (a
+  // broken stream, a failed write) leaves the sheet partly imported; the
+  // error says how many rows were removed and how many were written. The
+  // sheet is read once, by the first chunk, and later chunks work from that
+  // snapshot, so edits made elsewhere during an import are not seen by it.
+  async importRows(
+    spreadsheetId: string,
+    sheetName: string,
+    body: ReadableStream<Uint8Array>,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const columns = await this.sheetsService.getSheetColumns(
+      spreadsheetId,
+      sheetName
+    );
+    const headers = columns.map((column) => column.name);
+    if (headers.length === 0) {
+      throw new BadRequestException(`Sheet "${sheetName}" has no header row`);
+    }
+
+    const mapping = options.mapping ?? {};
+    for (const [source, target] of Object.entries(mapping)) {
+      if (target !== null && !headers.includes(target)) {
+        throw new BadRequestException(
+          `mapping: "${source}" targets unknown column "${target}"`
+        );
+      }
+    }
+    if (options.mode === "upsert") {
+      const missing = (options.keys ?? []).filter((k) => !headers.includes(k));
+      if (!options.keys?.length || missing.length > 0) {
+        throw new BadRequestException(
+          `'keys' must name sheet columns (unknown: ${missing.join(", ")})`
+        );
+      }
+    }
+
+    const report: ImportReport = {
+      sheet: sheetName,
+      mode: options.mode,
+      format: options.format,
+      received: 0,
+      removed: 0,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      invalid: 0,
+      ignoredColumns: [],
+      issues: [],
+      issuesTruncated: false,
+    };
+    const ignored = new Set<string>();
+    const addIssue = (issue: ImportIssue) => {
+      report[issue.status]++;
+      if (report.issues.length < IMPORT_MAX_ISSUES) {
+        report.issues.push(issue);
+      } else {
+        report.issuesTruncated = true;
+      }
+    };
+
+    // Source key -> sheet header, or null when the column is not imported.
+    const resolve = (key: string): string | null => {
+      const target =
+        key in mapping ? mapping[key]! : headers.includes(key) ? key : null;
+      if (target === null) ignored.add(key);
+      return target;
+    };
+
+    const chunkSize = options.chunkSize ?? IMPORT_CHUNK_ROWS;
+    let chunk: { line: number; data: RowDict }[] = [];
+    let cleared = options.mode !== "replace";
+    const snapshot: SheetSnapshot = { values: null };
+
+    const flush = async () => {
+      if (chunk.length === 0) return;
+      const batch = chunk;
+      chunk = [];
+
+      const records = batch.map((entry) => entry.data);
+      const writeOptions = { strict: options.strict };
+      let results: (BulkRowResult | UpsertRowResult)[];
+      if (!cleared) {
+        const replaced = await this.sheetsService.replaceRows(
+          spreadsheetId,
+          sheetName,
+          records,
+          "partial",
+          writeOptions,
+          snapshot
+        );
+        report.removed = replaced.removed;
+        cleared = replaced.appended > 0;
+        results = replaced.results;
+      } else if (options.mode === "upsert") {
+        results = (
+          await this.sheetsService.upsertRows(
+            spreadsheetId,
+            sheetName,
+            options.keys!,
+            records,
+            "partial",
+            writeOptions,
+            snapshot
+          )
+        ).results;
+      } else {
+        results = (
+          await this.sheetsService.appendRows(
+            spreadsheetId,
+            sheetName,
+            records,
+            "partial",
+            writeOptions,
+            snapshot
+          )
+        ).results;
+      }
+
+      for (const result of results) {
+        if (result.status === "invalid") {
+          addIssue({
+            line: batch[result.index]!.line,
+            status: "invalid",
+            reason: "Failed validation",
+            errors: result.errors,
+          });
+        } else if (result.status === "appended") {
+          report.inserted++;
+        } else {
+          report[result.status]++;
+        }
+      }
+    };
+
+    const source =
+      options.format === "csv"
+        ? this.csvRecords(body, resolve)
+        : this.ndjsonRecords(body, resolve);
+
+    try {
+      for await (const record of source) {
+        report.received++;
+        if ("skip" in record) {
+          addIssue({
+            line: record.line,
+            status: "skipped",
+            reason: record.skip,
+          });
+          continue;
+        }
+        chunk.push(record);
+        if (chunk.length >= chunkSize) await flush();
+      }
+      await flush();
+    } catch (error: any) {
+      if (options.mode === "replace" && cleared) {
+        throw new InternalServerErrorException(
+          `Import failed after replacing the sheet's rows: ${report.removed} ` +
+            `existing rows were removed and ${report.inserted} imported ` +
+            `before the failure (${error?.message})`
+        );
+      }
+      throw error;
+    }
+
+    report.ignoredColumns = [...ignored];
+    return report;
+  }
+
+  private async *textChunks(
+    body: ReadableStream<Uint8Array>
+  ): AsyncGenerator<string> {
+    // Strips a UTF-8 BOM, which spreadsheet exports often start with.
+    const decoder = new TextDecoder("utf-8");
+    for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+      const text = decoder.decode(bytes, { stream: true });
+      if (text) yield text;
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  }
+
+  private async *csvRecords(
+    body: ReadableStream<Uint8Array>,
+    resolve: (key: string) => string | null
+  ): AsyncGenerator<SourceRecord> {
+    const parser = new CsvParser();
+    let targets: (string | null)[] | null = null;
+    let line = 0;
+
+    const toRecord = (fields: string[]): SourceRecord | null => {
+      line++;
+      if (!targets) {
+        targets = fields.map((field) => resolve(field.trim()));
+        return null;
+      }
+      if (fields.every((field) => field.trim() === "")) return null;
+      if (fields.length > targets.length) {
+        return {
+          line,
+          skip: `Has ${fields.length} fields, header has ${targets.length}`,
+        };
+      }
+
+      const data: RowDict = {};
+      fields.forEach((value, index) => {
+        const target = targets![index];
+        if (target) data[target] = value;
+      });
+      return Object.keys(data).length
+        ? { line, data }
+        : { line, skip: "No mapped columns" };
+    };
+
+    for await (const text of this.textChunks(body)) {
+      for (const fields of parser.push(text)) {
+        const record = toRecord(fields);
+        if (record) yield record;
+      }
+    }
+    for (const fields of parser.end()) {
+      const record = toRecord(fields);
+      if (record) yield record;
+    }
+  }
+
+  private async *ndjsonRecords(
+    body: ReadableStream<Uint8Array>,
+    resolve: (key: string) => string | null
+  ): AsyncGenerator<SourceRecord> {
+    let buffer = "";
+    let line = 0;
+
+    // Stops reading before an endless line can fill memory.
+    const tooLong = (text: string, at: number) => {
+      if (text.length > IMPORT_MAX_LINE_CHARS) {
+        throw new BadRequestException(
+          `Line ${at} is longer than ${IMPORT_MAX_LINE_CHARS} characters`
+        );
+      }
+    };
+
+    const toRecord = (text: string): SourceRecord | null => {
+      line++;
+      tooLong(text, line);
+      const trimmed = text.trim();
+      if (!trimmed) return null;
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch (error: any) {
+        return { line, skip: `Invalid JSON: ${error?.message}` };
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return { line, skip: "Not a JSON object" };
+      }
+
+      const data: RowDict = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        const target = resolve(key);
+        if (target) data[target] = value;
+      }
+      return Object.keys(data).length
+        ? { line, data }
+        : { line, skip: "No mapped columns" };
+    };
+
+    for await (const text of this.textChunks(body)) {
+      const lines = (buffer + text).split("\n");
+      buffer = lines.pop()!;
+      for (const text of lines) {
+        const record = toRecord(text);
+        if (record) yield record;
+      }
+      tooLong(buffer, line + 1);
+    }
+    const record = toRecord(buffer);
+    if (record) yield record;
+  }
+}
@@ -0,0 +1,240 @@
+import { describe, expect, test } from "bun:test";
+import { QuerySyntaxException } from "../common/exceptions";
+import { compileQuery, parseQuery } from "./query";
+
+const headers = ["id", "name", "city", "amount", "first name", "order"];
+
+const compile = (text: string) => compileQuery(parseQuery(text), headers);
+
+// The message and 1-based position of the error `text` is rejected with.
+const errorOf = (text: string) => {
+  try {
+    compile(text);
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(QuerySyntaxException);
+    return error.errors[0];
+  }
+  throw new Error("expected the query to be rejected");
+};
+
+describe("tokenizer", () => {
+  test("keywords are case-insensitive", () => {
+    expect(compile("select id from Orders where id = 1").where).toEqual({
+      field: "id",
+      operator: "eq",
+      value: 1,
+    });
+  });
+
+  test('names are quoted as "x", `x` or [x]', () => {
+    const { sheet, columns } = compile(
+      "SELECT \"first name\" AS fn, [order], `id` FROM 'My Tab'"
+    );
+    expect(sheet).toBe("My Tab");
+    expect(columns).toEqual([
+      { field: "first name", as: "fn" },
+      { field: "order", as: "order" },
+      { field: "id", as: "id" },
+    ]);
+  });
+
+  test("a doubled quote escapes one", () => {
+    expect(
+      compile("SELECT id FROM Orders WHERE name = 'O''Brien'").where
+    ).toEqual({ field: "name", operator: "eq", value: "O'Brien" });
+    expect(parseQuery('SELECT "say ""hi""" FROM Orders').select).toEqual([
+      {
+        operand: { kind: "column", name: 'say "hi"', position: 8 },
+        alias: null,
+      },
+    ]);
+  });
+
+  test("rejects unterminated and empty quotes", () => {
+    expect(errorOf("SELECT id FROM Orders WHERE name = 'abc")).toEqual({
+      position: 36,
+      message: "Unterminated string",
+    });
+    expect(errorOf('SELECT "abc FROM Orders')).toEqual({
+      position: 8,
+      message: "Unterminated quoted name",
+    });
+    expect(errorOf('SELECT "" FROM Orders')).toEqual({
+      position: 8,
+      message: "Empty quoted name",
+    });
+  });
+
+  test("rejects unknown characters", () => {
+    expect(errorOf("SELECT id FROM Orders WHERE id # 1")).toEqual({
+      position: 32,
+      message: 'Unexpected character "#"',
+    });
+  });
+
+  test("rejects queries over 4000 characters", () => {
+    expect(errorOf("x".repeat(4001))).toEqual({
+      position: 4001,
+      message: "Query is longer than 4000 characters",
+    });
+  });
+});
+
+describe("WHERE", () => {
+  test("NOT IN and NOT BETWEEN", () => {
+    expect(
+      compile(
+        "SELECT name FROM Orders WHERE city NOT IN ('Paris', 'Berlin') AND amount NOT BETWEEN 1 AND 5"
+      ).where
+    ).toEqual({
+      and: [
+        { field: "city", operator: "not_in", values: ["Paris", "Berlin"] },
+        { not: { field: "amount", operator: "between", values: [1, 5] } },
+      ],
+    });
+  });
+
+  test("IN and BETWEEN", () => {
+    expect(
+      compile(
+        "SELECT id FROM Orders WHERE id IN (1, 2) OR amount BETWEEN 10 AND 20"
+      ).where
+    ).toEqual({
+      or: [
+        { field: "id", operator: "in", values: [1, 2] },
+        { field: "amount", operator: "between", values: [10, 20] },
+      ],
+    });
+  });
+
+  test("LIKE is case-sensitive and ILIKE is not", () => {
+    expect(
+      compile(
+        "SELECT id FROM Orders WHERE name LIKE 'a%' OR name NOT ILIKE '%b'"
+      ).where
+    ).toEqual({
+      or: [
+        { field: "name", operator: "ilike", value: "a%", caseSensitive: true },
+        { not: { field: "name", operator: "ilike", value: "%b" } },
+      ],
+    });
+  });
+
+  test("IS NULL, NOT and parentheses", () => {
+    expect(
+      compile(
+        "SELECT id FROM Orders WHERE city IS NULL AND NOT (id = 1 OR id IS NOT NULL)"
+      ).where
+    ).toEqual({
+      and: [
+        { field: "city", operator: "is_null" },
+        {
+          not: {
+            or: [
+              { field: "id", operator: "eq", value: 1 },
+              { field: "id", operator: "is_not_null" },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  test("errors point at the offending token", () => {
+    expect(errorOf("SELECT id FROM Orders WHERE id = NULL")).toEqual({
+      position: 34,
+      message: "Compare with NULL using IS NULL or IS NOT NULL",
+    });
+    expect(errorOf("SELECT id FROM Orders WHERE id 5")).toEqual({
+      position: 32,
+      message: 'Expected a comparison, found "5"',
+    });
+    expect(errorOf("SELECT id FROM Orders WHERE name LIKE 5")).toEqual({
+      position: 39,
+      message: 'Expected a quoted pattern, found "5"',
+    });
+    expect(errorOf("SELECT id FROM Orders WHERE COUNT(*) > 1")).toEqual({
+      position: 29,
+      message: "Aggregates are not allowed in WHERE; use HAVING",
+    });
+  });
+});
+
+describe("clauses", () => {
+  test("LIMIT, OFFSET, ORDER BY and DISTINCT", () => {
+    expect(
+      compile(
+        "SELECT DISTINCT city AS c FROM Orders ORDER BY c DESC LIMIT 5 OFFSET 2"
+      ).options
+    ).toEqual({
+      uniqueBy: ["city"],
+      orderBy: [{ field: "city", direction: "desc" }],
+      limit: 5,
+      offset: 2,
+    });
+  });
+
+  test("SELECT * lists every header", () => {
+    expect(compile("SELECT * FROM Orders").columns.map((c) => c.as)).toEqual(
+      headers
+    );
+  });
+
+  test("grouped queries name aggregates and resolve HAVING and ORDER BY", () => {
+    const { options, columns } = compile(
+      "SELECT city, COUNT(*), SUM(amount) AS total FROM Orders GROUP BY city HAVING total > 10 ORDER BY COUNT(*) DESC"
+    );
+    expect(options).toEqual({
+      groupBy: ["city"],
+      aggregates: [
+        { fn: "count", field: "", as: "count" },
+        { fn: "sum", field: "amount", as: "total" },
+      ],
+      having: { field: "total", operator: "gt", value: 10 },
+      orderBy: [{ field: "count", direction: "desc" }],
+    });
+    expect(columns).toEqual([
+      { field: "city", as: "city" },
+      { field: "count", as: "count" },
+      { field: "total", as: "total" },
+    ]);
+  });
+
+  test("errors point at the offending token", () => {
+    expect(errorOf("SELECT id Orders")).toEqual({
+      position: 17,
+      message: "Expected FROM, found end of query",
+    });
+    expect(errorOf("SELECT id FROM")).toEqual({
+      position: 15,
+      message: "Expected a sheet name, found end of query",
+    });
+    expect(errorOf("SELECT id FROM Orders extra")).toEqual({
+      position: 23,
+      message: 'Unexpected "extra"',
+    });
+    expect(errorOf("SELECT id FROM Orders LIMIT 1.5")).toEqual({
+      position: 29,
+      message: "LIMIT expects a whole number",
+    });
+  });
+
+  test("names are checked against the headers", () => {
+    expect(errorOf("SELECT nope FROM Orders")).toEqual({
+      position: 8,
+      message: 'Unknown column "nope"',
+    });
+    expect(errorOf("SELECT * FROM Orders GROUP BY city")).toEqual({
+      position: 15,
+      message: "SELECT * can't be used with GROUP BY",
+    });
+    expect(errorOf("SELECT name, COUNT(*) FROM Orders GROUP BY city")).toEqual({
+      position: 8,
+      message: 'Column "name" must appear in GROUP BY or be aggregated',
+    });
+    expect(errorOf("SELECT id FROM Orders HAVING id > 1")).toEqual({
+      position: 30,
+      message: "HAVING needs GROUP BY or an aggregate in SELECT",
+    });
+  });
+});
@@ -0,0 +1,714 @@
+import { QuerySyntaxException } from "../common/exceptions";
+import type { AggregateFn, AggregateSpec } from "./aggregates";
+import type { WhereTree } from "./filters";
+import type {
+  OrderByClause,
+  SheetQueryOptions,
+  SortDirection,
+} from "./service";
+
+type TokenType = "word" | "identifier" | "string" | "number" | "symbol" | "end";
+
+// `word` is a bare name or keyword; `identifier` is a quoted name ("x", `x`
+// or [x]) and never a keyword.
+type Token = {
+  type: TokenType;
+  value: string;
+  position: number;
+};
+
+const KEYWORDS = new Set([
+  "SELECT",
+  "DISTINCT",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "BY",
+  "HAVING",
+  "ORDER",
+  "ASC",
+  "DESC",
+  "LIMIT",
+  "OFFSET",
+  "AS",
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "LIKE",
+  "ILIKE",
+  "BETWEEN",
+  "IS",
+  "NULL",
+  "TRUE",
+  "FALSE",
+]);
+
+const FUNCTIONS: Record<string, AggregateFn> = {
+  COUNT: "count",
+  SUM: "sum",
+  AVG: "avg",
+  MIN: "min",
+  MAX: "max",
+  FIRST: "first",
+  LAST: "last",
+};
+
+const COMPARISONS: Record<string, string> = {
+  "=": "eq",
+  "!=": "ne",
+  "<>": "ne",
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+};
+
+const MAX_QUERY_LENGTH = 4000;
+
+type ColumnRef = { kind: "column"; name: string; position: number };
+
+type AggregateRef = {
+  kind: "aggregate";
+  fn: AggregateFn;
+  field: string;
+  position: number;
+};
+
+type Operand = ColumnRef | AggregateRef;
+
+type Expr =
+  | { kind: "and" | "or"; items: Expr[] }
+  | { kind: "not"; expr: Expr }
+  | {
+      kind: "condition";
+      operand: Operand;
+      operator: string;
+      value?: any;
+      values?: any[];
+      caseSensitive?: boolean;
+    };
+
+type SelectItem = { operand: Operand; alias: string | null };
+
+export type ParsedQuery = {
+  sheet: string;
+  sheetPosition: number;
+  distinct: boolean;
+  // null for `SELECT *`
+  select: SelectItem[] | null;
+  where?: Expr;
+  groupBy: ColumnRef[];
+  having?: Expr;
+  orderBy: { operand: Operand; direction: SortDirection }[];
+  limit?: number;
+  offset?: number;
+};
+
+// Result of checking a parsed query against the sheet's headers. `columns`
+// maps each result column (`field`) to its output name (`as`).
+export type CompiledQuery = {
+  sheet: string;
+  where?: WhereTree;
+  options: SheetQueryOptions;
+  columns: { field: string; as: string }[];
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const fail = (message: string, at: number): never => {
+    throw new QuerySyntaxException(message, at + 1);
+  };
+
+  // Reads a quoted run up to `close`; a doubled `close` is an escaped one.
+  const readQuoted = (close: string, what: string): string => {
+    const start = i;
+    let value = "";
+    i++;
+    while (true) {
+      if (i >= text.length) fail(`Unterminated ${what}`, start);
+      const char = text[i]!;
+      if (char === close) {
+        if (text[i + 1] === close && close !== "]") {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      value += char;
+      i++;
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i]!;
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))![0];
+      tokens.push({ type: "word", value: match, position });
+      i += match.length;
+    } else if (
+      /[0-9]/.test(char) ||
+      (char === "." && /[0-9]/.test(text[i + 1] ?? ""))
+    ) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/.exec(
+        text.slice(i)
+      )![0];
+      tokens.push({ type: "number", value: match, position });
+      i += match.length;
+    } else if (char === "'") {
+      tokens.push({
+        type: "string",
+        value: readQuoted("'", "string"),
+        position,
+      });
+    } else if (char === '"' || char === "`") {
+      const value = readQuoted(char, "quoted name");
+      if (!value) fail("Empty quoted name", position - 1);
+      tokens.push({ type: "identifier", value, position });
+    } else if (char === "[") {
+      const value = readQuoted("]", "quoted name");
+      if (!value) fail("Empty quoted name", position - 1);
+      tokens.push({ type: "identifier", value, position });
+    } else {
+      const two = text.slice(i, i + 2);
+      if (["<=", ">=", "<>", "!="].includes(two)) {
+        tokens.push({ type: "symbol", value: two, position });
+        i += 2;
+      } else if ("=<>,()*-".includes(char)) {
+        tokens.push({ type: "symbol", value: char, position });
+        i++;
+      } else {
+        fail(`Unexpected character "${char}"`, i);
+      }
+    }
+  }
+
+  tokens.push({ type: "end", value: "", position: text.length + 1 });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private get current(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private describe(token: Token): string {
+    if (token.type === "end") return "end of query";
+    if (token.type === "string") return `'${token.value}'`;
+    return `"${token.value}"`;
+  }
+
+  private fail(message: string, token: Token = this.current): never {
+    throw new QuerySyntaxException(message, token.position);
+  }
+
+  private isKeyword(keyword: string, token: Token = this.current): boolean {
+    return token.type === "word" && token.value.toUpperCase() === keyword;
+  }
+
+  private accept(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(keyword: string): void {
+    if (!this.accept(keyword)) {
+      this.fail(`Expected ${keyword}, found ${this.describe(this.current)}`);
+    }
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.current.type !== "symbol" || this.current.value !== symbol) {
+      return false;
+    }
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      this.fail(`Expected "${symbol}", found ${this.describe(this.current)}`);
+    }
+  }
+
+  parse(): ParsedQuery {
+    this.expect("SELECT");
+    const distinct = this.accept("DISTINCT");
+    const select = this.acceptSymbol("*") ? null : this.parseSelectList();
+
+    this.expect("FROM");
+    const sheetToken = this.current;
+    if (
+      sheetToken.type !== "string" &&
+      sheetToken.type !== "identifier" &&
+      !(
+        sheetToken.type === "word" &&
+        !KEYWORDS.has(sheetToken.value.toUpperCase())
+      )
+    ) {
+      this.fail(`Expected a sheet name, found ${this.describe(sheetToken)}`);
+    }
+    this.index++;
+
+    const query: ParsedQuery = {
+      sheet: sheetToken.value,
+      sheetPosition: sheetToken.position,
+      distinct,
+      select,
+      groupBy: [],
+      orderBy: [],
+    };
+
+    if (this.accept("WHERE")) query.where = this.parseExpr();
+    if (this.accept("GROUP")) {
+      this.expect("BY");
+      do {
+        query.groupBy.push(this.parseColumn());
+      } while (this.acceptSymbol(","));
+    }
+    if (this.accept("HAVING")) query.having = this.parseExpr();
+    if (this.accept("ORDER")) {
+      this.expect("BY");
+      do {
+        const operand = this.parseOperand();
+        let direction: SortDirection = "asc";
+        if (this.accept("DESC")) direction = "desc";
+        else this.accept("ASC");
+        query.orderBy.push({ operand, direction });
+      } while (this.acceptSymbol(","));
+    }
+    if (this.accept("LIMIT")) query.limit = this.parseCount("LIMIT");
+    if (this.accept("OFFSET")) query.offset = this.parseCount("OFFSET");
+
+    if (this.current.type !== "end") {
+      this.fail(`Unexpected ${this.describe(this.current)}`);
+    }
+    return query;
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.current;
+    if (token.type !== "number" || !/^[0-9]+$/.test(token.value)) {
+      this.fail(`${clause} expects a whole number`);
+    }
+    this.index++;
+    return parseInt(token.value, 10);
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const operand = this.parseOperand();
+      let alias: string | null = null;
+      if (this.accept("AS")) {
+        alias = this.parseName("an alias");
+      } else if (
+        (this.current.type === "word" &&
+          !KEYWORDS.has(this.current.value.toUpperCase())) ||
+        this.current.type === "identifier"
+      ) {
+        alias = this.parseName("an alias");
+      }
+      items.push({ operand, alias });
+    } while (this.acceptSymbol(","));
+    return items;
+  }
+
+  private parseName(what: string): string {
+    const token = this.current;
+    if (
+      token.type === "identifier" ||
+      (token.type === "word" && !KEYWORDS.has(token.value.toUpperCase()))
+    ) {
+      this.index++;
+      return token.value;
+    }
+    return this.fail(`Expected ${what}, found ${this.describe(token)}`);
+  }
+
+  private parseColumn(): ColumnRef {
+    const position = this.current.position;
+    return { kind: "column", name: this.parseName("a column name"), position };
+  }
+
+  // A column, or an aggregate call such as COUNT(*) or SUM(amount).
+  private parseOperand(): Operand {
+    const token = this.current;
+    const next = this.tokens[this.index + 1]!;
+    const fn =
+      token.type === "word" ? FUNCTIONS[token.value.toUpperCase()] : undefined;
+    if (!fn || next.type !== "symbol" || next.value !== "(") {
+      return this.parseColumn();
+    }
+
+    this.index += 2;
+    let aggregate: AggregateFn = fn;
+    let field = "";
+    if (this.acceptSymbol("*")) {
+      if (fn !== "count") this.fail(`${token.value}(*) is not supported`);
+    } else {
+      if (this.accept("DISTINCT")) {
+        if (fn !== "count") {
+          this.fail(`DISTINCT is only supported in COUNT`);
+        }
+        aggregate = "count_distinct";
+      }
+      field = this.parseName("a column name");
+    }
+    this.expectSymbol(")");
+    return {
+      kind: "aggregate",
+      fn: aggregate,
+      field,
+      position: token.position,
+    };
+  }
+
+  private parseExpr(): Expr {
+    const items = [this.parseAnd()];
+    while (this.accept("OR")) items.push(this.parseAnd());
+    return items.length === 1 ? items[0]! : { kind: "or", items };
+  }
+
+  private parseAnd(): Expr {
+    const items = [this.parseNot()];
+    while (this.accept("AND")) items.push(this.parseNot());
+    return items.length === 1 ? items[0]! : { kind: "and", items };
+  }
+
+  private parseNot(): Expr {
+    if (this.accept("NOT")) return { kind: "not", expr: this.parseNot() };
+    if (this.acceptSymbol("(")) {
+      const expr = this.parseExpr();
+      this.expectSymbol(")");
+      return expr;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): Expr {
+    const operand = this.parseOperand();
+    const token = this.current;
+
+    if (token.type === "symbol" && COMPARISONS[token.value]) {
+      this.index++;
+      const valueToken = this.current;
+      const value = this.parseValue();
+      if (value === null) {
+        this.fail("Compare with NULL using IS NULL or IS NOT NULL", valueToken);
+      }
+      return {
+        kind: "condition",
+        operand,
+        operator: COMPARISONS[token.value]!,
+        value,
+      };
+    }
+
+    if (this.accept("IS")) {
+      const negated = this.accept("NOT");
+      this.expect("NULL");
+      return {
+        kind: "condition",
+        operand,
+        operator: negated ? "is_not_null" : "is_null",
+      };
+    }
+
+    const negated = this.accept("NOT");
+    let condition: Expr;
+    if (this.accept("IN")) {
+      this.expectSymbol("(");
+      const values = [this.parseValue()];
+      while (this.acceptSymbol(",")) values.push(this.parseValue());
+      this.expectSymbol(")");
+      return {
+        kind: "condition",
+        operand,
+        operator: negated ? "not_in" : "in",
+        values,
+      };
+    } else if (this.isKeyword("LIKE") || this.isKeyword("ILIKE")) {
+      const caseSensitive = this.isKeyword("LIKE");
+      this.index++;
+      const pattern = this.current;
+      if (pattern.type !== "string") {
+        this.fail(`Expected a quoted pattern, found ${this.describe(pattern)}`);
+      }
+      this.index++;
+      condition = {
+        kind: "condition",
+        operand,
+        operator: "ilike",
+        value: pattern.value,
+        caseSensitive,
+      };
+    } else if (this.accept("BETWEEN")) {
+      const low = this.parseValue();
+      this.expect("AND");
+      const high = this.parseValue();
+      condition = {
+        kind: "condition",
+        operand,
+        operator: "between",
+        values: [low, high],
+      };
+    } else {
+      return this.fail(
+        `Expected a comparison, found ${this.describe(this.current)}`
+      );
+    }
+
+    return negated ? { kind: "not", expr: condition } : condition;
+  }
+
+  private parseValue(): any {
+    const token = this.current;
+    if (token.type === "string") {
+      this.index++;
+      return token.value;
+    }
+    if (token.type === "symbol" && token.value === "-") {
+      const next = this.tokens[this.index + 1]!;
+      if (next.type === "number") {
+        this.index += 2;
+        return -Number(next.value);
+      }
+    }
+    if (token.type === "number") {
+      this.index++;
+      return Number(token.value);
+    }
+    if (this.accept("TRUE")) return true;
+    if (this.accept("FALSE")) return false;
+    if (this.accept("NULL")) return null;
+    return this.fail(`Expected a value, found ${this.describe(token)}`);
+  }
+}
+
+// Parses `SELECT … FROM <sheet> [WHERE …] [GROUP BY …] [HAVING …]
+// [ORDER BY …] [LIMIT n] [OFFSET n]`. Keywords are case-insensitive; names
+// with spaces or that clash with a keyword are quoted as "name", `name` or
+// [name], and strings use single quotes ('' escapes one).
+export function parseQuery(text: string): ParsedQuery {
+  if (text.length > MAX_QUERY_LENGTH) {
+    throw new QuerySyntaxException(
+      `Query is longer than ${MAX_QUERY_LENGTH} characters`,
+      MAX_QUERY_LENGTH + 1
+    );
+  }
+  return new Parser(tokenize(text)).parse();
+}
+
+const defaultAlias = (fn: AggregateFn, field: string) =>
+  field ? `${fn}_${field}` : fn;
+
+// Checks every name against the sheet's headers and turns the query into a
+// `where` tree and SheetQueryOptions. In grouped queries HAVING and ORDER BY
+// see the result columns (group columns and aggregate aliases); aggregates
+// they use that SELECT doesn't list are computed but not returned.
+export function compileQuery(
+  query: ParsedQuery,
+  headers: string[]
+): CompiledQuery {
+  const fail = (message: string, position: number): never => {
+    throw new QuerySyntaxException(message, position);
+  };
+  const checkHeader = (ref: { name: string; position: number }) => {
+    if (!headers.includes(ref.name)) {
+      fail(`Unknown column "${ref.name}"`, ref.position);
+    }
+  };
+
+  const selectAggregates = (query.select ?? []).filter(
+    (item) => item.operand.kind === "aggregate"
+  );
+  const grouped = query.groupBy.length > 0 || selectAggregates.length > 0;
+
+  if (query.where) {
+    const check = (expr: Expr) => {
+      walkOperands(expr, (operand) => {
+        if (operand.kind === "aggregate") {
+          return fail(
+            "Aggregates are not allowed in WHERE; use HAVING",
+            operand.position
+          );
+        }
+        checkHeader(operand);
+      });
+    };
+    check(query.where);
+  }
+
+  if (!grouped) {
+    if (query.having) {
+      fail(
+        "HAVING needs GROUP BY or an aggregate in SELECT",
+        firstPosition(query.having)
+      );
+    }
+
+    const columns = query.select
+      ? query.select.map((item) => {
+          const column = item.operand as ColumnRef;
+          checkHeader(column);
+          return { field: column.name, as: item.alias ?? column.name };
+        })
+      : headers.map((header) => ({ field: header, as: header }));
+
+    const orderBy: OrderByClause[] = query.orderBy.map(
+      ({ operand, direction }) => {
+        if (operand.kind === "aggregate") {
+          return fail("Aggregates in ORDER BY need GROUP BY", operand.position);
+        }
+        const aliased = columns.find((column) => column.as === operand.name);
+        const field = aliased?.field ?? operand.name;
+        if (!aliased) checkHeader(operand);
+        return { field, direction };
+      }
+    );
+
+    return {
+      sheet: query.sheet,
+      where:
+        query.where &&
+        toWhere(query.where, (operand) => (operand as ColumnRef).name),
+      options: {
+        ...(query.distinct
+          ? { uniqueBy: columns.map((column) => column.field) }
+          : {}),
+        ...(orderBy.length ? { orderBy } : {}),
+        ...(query.limit !== undefined ? { limit: query.limit } : {}),
+        ...(query.offset !== undefined ? { offset: query.offset } : {}),
+      },
+      columns,
+    };
+  }
+
+  if (!query.select) {
+    fail("SELECT * can't be used with GROUP BY", query.sheetPosition);
+  }
+  if (query.distinct) {
+    fail(
+      "DISTINCT can't be combined with GROUP BY or aggregates",
+      query.sheetPosition
+    );
+  }
+  query.groupBy.forEach(checkHeader);
+  const groupNames = query.groupBy.map((ref) => ref.name);
+
+  const aggregates: Required<AggregateSpec>[] = [];
+  const aggregateFor = (ref: AggregateRef, alias: string | null): string => {
+    if (ref.field) checkHeader({ name: ref.field, position: ref.position });
+    const existing = aggregates.find(
+      (spec) =>
+        spec.fn === ref.fn &&
+        spec.field === ref.field &&
+        (alias === null || spec.as === alias)
+    );
+    if (existing) return existing.as;
+    const as = alias ?? defaultAlias(ref.fn, ref.field);
+    aggregates.push({ fn: ref.fn, field: ref.field, as });
+    return as;
+  };
+
+  const columns = query.select!.map((item) => {
+    if (item.operand.kind === "aggregate") {
+      const field = aggregateFor(item.operand, item.alias);
+      return { field, as: field };
+    }
+    if (!groupNames.includes(item.operand.name)) {
+      checkHeader(item.operand);
+      fail(
+        `Column "${item.operand.name}" must appear in GROUP BY or be aggregated`,
+        item.operand.position
+      );
+    }
+    return { field: item.operand.name, as: item.alias ?? item.operand.name };
+  });
+
+  // Result columns as HAVING and ORDER BY see them: group columns under their
+  // own name or alias, aggregates under their alias.
+  const resolveOutput = (operand: Operand): string => {
+    if (operand.kind === "aggregate") return aggregateFor(operand, null);
+    const aliased = columns.find((column) => column.as === operand.name);
+    if (aliased) return aliased.field;
+    if (groupNames.includes(operand.name)) return operand.name;
+    if (aggregates.some((spec) => spec.as === operand.name))
+      return operand.name;
+    checkHeader(operand);
+    return fail(
+      `Column "${operand.name}" is not grouped or aggregated`,
+      operand.position
+    );
+  };
+
+  const having = query.having && toWhere(query.having, resolveOutput);
+  const orderBy: OrderByClause[] = query.orderBy.map(
+    ({ operand, direction }) => ({
+      field: resolveOutput(operand),
+      direction,
+    })
+  );
+
+  return {
+    sheet: query.sheet,
+    where:
+      query.where &&
+      toWhere(query.where, (operand) => (operand as ColumnRef).name),
+    options: {
+      ...(groupNames.length ? { groupBy: groupNames } : {}),
+      aggregates,
+      ...(having ? { having } : {}),
+      ...(orderBy.length ? { orderBy } : {}),
+      ...(query.limit !== undefined ? { limit: query.limit } : {}),
+      ...(query.offset !== undefined ? { offset: query.offset } : {}),
+    },
+    columns,
+  };
+}
+
+function walkOperands(expr: Expr, visit: (operand: Operand) => void): void {
+  if (expr.kind === "condition") visit(expr.operand);
+  else if (expr.kind === "not") walkOperands(expr.expr, visit);
+  else expr.items.forEach((item) => walkOperands(item, visit));
+}
+
+function firstPosition(expr: Expr): number {
+  let position = 0;
+  walkOperands(expr, (operand) => {
+    if (!position) position = operand.position;
+  });
+  return position;
+}
+
+function toWhere(expr: Expr, field: (operand: Operand) => string): WhereTree {
+  switch (expr.kind) {
+    case "and":
+    case "or":
+      return { [expr.kind]: expr.items.map((item) => toWhere(item, field)) };
+    case "not":
+      return { not: toWhere(expr.expr, field) };
+    case "condition":
+      return {
+        field: field(expr.operand),
+        operator: expr.operator,
+        ...(expr.value !== undefined ? { value: expr.value } : {}),
+        ...(expr.values !== undefined ? { values: expr.values } : {}),
+        ...(expr.caseSensitive ? { caseSensitive: true } : {}),
+      };
+  }
+}
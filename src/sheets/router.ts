@@ -1,5 +1,78 @@
-import { readSheet, updateSheet, createRow } from "./controllers";
+import {
+  readSheet,
+  readSheetQuery,
+  updateSheet,
+  createRow,
+  deleteRows,
+  upsertRows,
+  invalidateCache,
+  cacheStats,
+  listSheets,
+  getSheetHeaders,
+  createTab,
+  updateTab,
+  deleteTab,
+  addColumn,
+  updateColumn,
+  deleteColumn,
+  importRows,
+  listWatches,
+  createWatch,
+  deleteWatch,
+  listWebhooks,
+  createWebhook,
+  deleteWebhook,
+  subscribeSheet,
+  runQuery,
+  apiDocument,
+  apiDocs,
+} from "./controllers";
+import { validateQueryText } from "./dto";
+import { parseQuery } from "./query";
+import { routes } from "./routes";
 import { CORE_HEADERS, createRoute, jsonResponse } from "../utils/index";
+import { AuthService, type Operation } from "../auth/service";
+import { BadRequestException } from "../common/exceptions";
+import type { RouteAuthorizer } from "../types";
+
+const authService = AuthService.getInstance();
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new BadRequestException(`Malformed path segment: ${value}`);
+  }
+}
+
+// Grant check for routes that name their sheet with `?sheet=`.
+function requireGrant(
+  req: Request,
+  url: URL,
+  operations: Operation | Operation[]
+): RouteAuthorizer {
+  return (route) =>
+    authService.authorize(
+      req,
+      route.params["spreadsheetId"]!,
+      url.searchParams.get("sheet"),
+      operations
+    );
+}
+
+// Grant check for routes with a `:sheet` path segment.
+function requireTabGrant(
+  req: Request,
+  operations: Operation | Operation[]
+): RouteAuthorizer {
+  return (route) =>
+    authService.authorize(
+      req,
+      route.params["spreadsheetId"]!,
+      decodeParam(route.params["sheet"]!),
+      operations
+    );
+}
 
 export async function router(req: Request, url: URL): Promise<Response> {
   if (req.method === "OPTIONS") {
@@ -7,10 +80,10 @@ export async function router(req: Request, url: URL): Promise<Response> {
   }
 
   const createRowRoute = await createRoute(
-    "POST",
-    "/api/:spreadsheetId",
+    routes.createRow,
     req,
     url,
+    requireGrant(req, url, "create"),
     async (route) => {
       const spreadsheetId = route.params["spreadsheetId"];
       return await createRow(req, spreadsheetId!, url.searchParams);
@@ -22,10 +95,17 @@ export async function router(req: Request, url: URL): Promise<Response> {
   }
 
   const updateRoute = await createRoute(
-    "PUT",
-    "/api/:spreadsheetId",
+    routes.updateRows,
     req,
     url,
+    // `upsert=true` appends a row when nothing matched.
+    requireGrant(
+      req,
+      url,
+      url.searchParams.get("upsert")?.toLowerCase() === "true"
+        ? ["create", "update"]
+        : "update"
+    ),
     async (route) => {
       const spreadsheetId = route.params["spreadsheetId"];
       return await updateSheet(req, spreadsheetId!, url.searchParams);
@@ -36,11 +116,26 @@ export async function router(req: Request, url: URL): Promise<Response> {
     return updateRoute;
   }
 
+  const deleteRoute = await createRoute(
+    routes.deleteRows,
+    req,
+    url,
+    requireGrant(req, url, "delete"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await deleteRows(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (deleteRoute) {
+    return deleteRoute;
+  }
+
   const readRoute = await createRoute(
-    "POST",
-    "/api/:spreadsheetId/read",
+    routes.readRows,
     req,
     url,
+    requireGrant(req, url, "read"),
     async (route) => {
       const spreadsheetId = route.params["spreadsheetId"];
       return await readSheet(req, spreadsheetId!, url.searchParams);
@@ -51,6 +146,423 @@ export async function router(req: Request, url: URL): Promise<Response> {
     return readRoute;
   }
 
+  const readQueryRoute = await createRoute(
+    routes.readRowsByQuery,
+    req,
+    url,
+    requireGrant(req, url, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await readSheetQuery(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (readQueryRoute) {
+    return readQueryRoute;
+  }
+
+  const upsertRoute = await createRoute(
+    routes.upsertRows,
+    req,
+    url,
+    requireGrant(req, url, ["create", "update"]),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await upsertRows(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (upsertRoute) {
+    return upsertRoute;
+  }
+
+  const importRoute = await createRoute(
+    routes.importRows,
+    req,
+    url,
+    (route) => {
+      const mode = url.searchParams.get("mode")?.toLowerCase();
+      const operations: Operation[] =
+        mode === "upsert"
+          ? ["create", "update"]
+          : mode === "replace"
+          ? ["create", "delete"]
+          : ["create"];
+      return requireGrant(req, url, operations)(route);
+    },
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await importRows(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (importRoute) {
+    return importRoute;
+  }
+
+  const invalidateCacheRoute = await createRoute(
+    routes.invalidateCache,
+    req,
+    url,
+    requireGrant(req, url, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await invalidateCache(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (invalidateCacheRoute) {
+    return invalidateCacheRoute;
+  }
+
+  const listSheetsRoute = await createRoute(
+    routes.listSheets,
+    req,
+    url,
+    (route) =>
+      authService.authorize(req, route.params["spreadsheetId"]!, null, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await listSheets(req, spreadsheetId!);
+    }
+  );
+
+  if (listSheetsRoute) {
+    return listSheetsRoute;
+  }
+
+  const sheetHeadersRoute = await createRoute(
+    routes.getSheetHeaders,
+    req,
+    url,
+    requireTabGrant(req, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      return await getSheetHeaders(req, spreadsheetId!, sheetName);
+    }
+  );
+
+  if (sheetHeadersRoute) {
+    return sheetHeadersRoute;
+  }
+
+  const createTabRoute = await createRoute(
+    routes.createTab,
+    req,
+    url,
+    // The grant must cover the new tab's title; without one, every tab.
+    async (route) => {
+      const { title } = (await req
+        .clone()
+        .json()
+        .catch(() => ({}))) as Record<string, any>;
+      authService.authorize(
+        req,
+        route.params["spreadsheetId"]!,
+        typeof title === "string" && title.trim() ? title.trim() : null,
+        "create"
+      );
+    },
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await createTab(req, spreadsheetId!);
+    }
+  );
+
+  if (createTabRoute) {
+    return createTabRoute;
+  }
+
+  const updateTabRoute = await createRoute(
+    routes.updateTab,
+    req,
+    url,
+    async (route) => {
+      requireTabGrant(req, "update")(route);
+      // A rename must also be allowed to create a tab under the new name.
+      const { title } = (await req
+        .clone()
+        .json()
+        .catch(() => ({}))) as Record<string, any>;
+      if (typeof title === "string" && title.trim()) {
+        authService.authorize(
+          req,
+          route.params["spreadsheetId"]!,
+          title.trim(),
+          "create"
+        );
+      }
+    },
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      return await updateTab(req, spreadsheetId!, sheetName);
+    }
+  );
+
+  if (updateTabRoute) {
+    return updateTabRoute;
+  }
+
+  const deleteTabRoute = await createRoute(
+    routes.deleteTab,
+    req,
+    url,
+    requireTabGrant(req, "delete"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      return await deleteTab(req, spreadsheetId!, sheetName);
+    }
+  );
+
+  if (deleteTabRoute) {
+    return deleteTabRoute;
+  }
+
+  const addColumnRoute = await createRoute(
+    routes.addColumn,
+    req,
+    url,
+    requireTabGrant(req, "update"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      return await addColumn(req, spreadsheetId!, sheetName);
+    }
+  );
+
+  if (addColumnRoute) {
+    return addColumnRoute;
+  }
+
+  const updateColumnRoute = await createRoute(
+    routes.updateColumn,
+    req,
+    url,
+    requireTabGrant(req, "update"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      const column = decodeParam(route.params["column"]!);
+      return await updateColumn(req, spreadsheetId!, sheetName, column);
+    }
+  );
+
+  if (updateColumnRoute) {
+    return updateColumnRoute;
+  }
+
+  const deleteColumnRoute = await createRoute(
+    routes.deleteColumn,
+    req,
+    url,
+    requireTabGrant(req, "delete"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const sheetName = decodeParam(route.params["sheet"]!);
+      const column = decodeParam(route.params["column"]!);
+      return await deleteColumn(req, spreadsheetId!, sheetName, column);
+    }
+  );
+
+  if (deleteColumnRoute) {
+    return deleteColumnRoute;
+  }
+
+  // The sheet to authorize comes from the query's FROM clause.
+  const queryRoute = await createRoute(
+    routes.runQuery,
+    req,
+    url,
+    (route) => {
+      const query = parseQuery(validateQueryText(url.searchParams));
+      authService.authorize(
+        req,
+        route.params["spreadsheetId"]!,
+        query.sheet,
+        "read"
+      );
+    },
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const query = parseQuery(validateQueryText(url.searchParams));
+      return await runQuery(req, spreadsheetId!, query, url.searchParams);
+    }
+  );
+
+  if (queryRoute) {
+    return queryRoute;
+  }
+
+  const subscribeRoute = await createRoute(
+    routes.subscribe,
+    req,
+    url,
+    requireGrant(req, url, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await subscribeSheet(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (subscribeRoute) {
+    return subscribeRoute;
+  }
+
+  // EventSource clients can only GET, so the query may also come in the URL.
+  const subscribeQueryRoute = await createRoute(
+    routes.subscribeByQuery,
+    req,
+    url,
+    requireGrant(req, url, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await subscribeSheet(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (subscribeQueryRoute) {
+    return subscribeQueryRoute;
+  }
+
+  const listWatchesRoute = await createRoute(
+    routes.listWatches,
+    req,
+    url,
+    requireGrant(req, url, "read"),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await listWatches(req, spreadsheetId!);
+    }
+  );
+
+  if (listWatchesRoute) {
+    return listWatchesRoute;
+  }
+
+  // Creating or removing a watch changes what every webhook on the sheet
+  // receives, so it needs the same grants as managing a webhook.
+  const createWatchRoute = await createRoute(
+    routes.createWatch,
+    req,
+    url,
+    requireGrant(req, url, ["read", "update"]),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await createWatch(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (createWatchRoute) {
+    return createWatchRoute;
+  }
+
+  const deleteWatchRoute = await createRoute(
+    routes.deleteWatch,
+    req,
+    url,
+    requireGrant(req, url, ["read", "update"]),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await deleteWatch(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (deleteWatchRoute) {
+    return deleteWatchRoute;
+  }
+
+  const listWebhooksRoute = await createRoute(
+    routes.listWebhooks,
+    req,
+    url,
+    null,
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await listWebhooks(req, spreadsheetId!, (sheet) =>
+        authService.can(req, spreadsheetId!, sheet, "read")
+      );
+    }
+  );
+
+  if (listWebhooksRoute) {
+    return listWebhooksRoute;
+  }
+
+  // Webhooks carry row contents, so registering one needs read access on
+  // top of a write grant; without `sheet` both must cover every tab.
+  const createWebhookRoute = await createRoute(
+    routes.createWebhook,
+    req,
+    url,
+    requireGrant(req, url, ["read", "update"]),
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      return await createWebhook(req, spreadsheetId!, url.searchParams);
+    }
+  );
+
+  if (createWebhookRoute) {
+    return createWebhookRoute;
+  }
+
+  const deleteWebhookRoute = await createRoute(
+    routes.deleteWebhook,
+    req,
+    url,
+    null,
+    async (route) => {
+      const spreadsheetId = route.params["spreadsheetId"];
+      const webhookId = decodeParam(route.params["webhookId"]!);
+      return await deleteWebhook(req, spreadsheetId!, webhookId, (sheet) =>
+        authService.authorize(req, spreadsheetId!, sheet, "update")
+      );
+    }
+  );
+
+  if (deleteWebhookRoute) {
+    return deleteWebhookRoute;
+  }
+
+  // Process-wide counters, so only authentication applies (no grant check).
+  const cacheStatsRoute = await createRoute(
+    routes.cacheStats,
+    req,
+    url,
+    null,
+    async () => {
+      return await cacheStats();
+    }
+  );
+
+  if (cacheStatsRoute) {
+    return cacheStatsRoute;
+  }
+
+  const openApiRoute = await createRoute(
+    routes.openApiDocument,
+    req,
+    url,
+    null,
+    async () => {
+      return await apiDocument();
+    }
+  );
+
+  if (openApiRoute) {
+    return openApiRoute;
+  }
+
+  const docsRoute = await createRoute(routes.docs, req, url, null, async () => {
+    return await apiDocs();
+  });
+
+  if (docsRoute) {
+    return docsRoute;
+  }
+
   // No routes matched
   return jsonResponse({ error: "Not found" }, { status: 404 });
 }
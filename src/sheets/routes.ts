@@ -0,0 +1,657 @@
+import { defineSchema, ref, type JsonSchema } from "../common/schema";
+import { MAX_BULK_ROWS, WATCH_MIN_INTERVAL_MS } from "../constants";
+import type { ParameterDefinition, RouteDefinition } from "../types";
+
+// Request and response shapes shared by several routes. They are listed
+// under `components.schemas` in the OpenAPI document.
+
+const WhereList: JsonSchema = {
+  anyOf: [ref("Where"), { type: "array", items: ref("Where") }],
+};
+
+export const WhereSchema = defineSchema("Where", {
+  type: "object",
+  description:
+    "A condition, an and/or/not group, or both; every part present must hold. At the top level, {} matches every row.",
+  additionalProperties: false,
+  properties: {
+    field: { type: "string", minLength: 1 },
+    operator: {
+      type: "string",
+      description:
+        "eq (default), ne, gt, gte, lt, lte, between, in, not_in, is_null, is_not_null, empty, not_empty, like, ilike, starts_with, ends_with, regex, contains_any, contains_all, within_last, within_next or in_period",
+    },
+    value: { description: "Operand; its type follows the column's." },
+    values: { type: "array", description: "Operands of between and in." },
+    unit: {
+      type: "string",
+      enum: ["minutes", "hours", "days", "weeks", "months", "years"],
+    },
+    caseSensitive: { type: "boolean", default: false },
+    and: WhereList,
+    or: WhereList,
+    not: WhereList,
+  },
+});
+
+// The optional top-level `where` of reads and updates; null, like {},
+// matches every row.
+const OptionalWhere: JsonSchema = {
+  anyOf: [WhereSchema, { type: "null" }],
+};
+
+export const SearchOptionsSchema = defineSchema("SearchOptions", {
+  type: "object",
+  description: "Fuzzy search over the rows that passed `where`.",
+  required: ["term"],
+  additionalProperties: false,
+  properties: {
+    term: { type: "string" },
+    keys: {
+      type: "array",
+      items: { type: "string" },
+      description: "Columns to search; all of them by default.",
+    },
+    threshold: { type: "number", minimum: 0, maximum: 1 },
+    limit: { type: "integer", minimum: 0 },
+    minMatchCharLength: { type: "integer", minimum: 1 },
+  },
+});
+
+const ColumnList: JsonSchema = {
+  anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+};
+
+const OrderByItem: JsonSchema = {
+  anyOf: [
+    { type: "string", description: 'Column, optionally "<column> desc".' },
+    {
+      type: "object",
+      required: ["field"],
+      additionalProperties: false,
+      properties: {
+        field: { type: "string" },
+        // Not an enum: the service ignores the case, as with "amount DESC".
+        direction: {
+          type: "string",
+          description: '"asc" (default) or "desc", in any case.',
+          examples: ["asc", "desc"],
+        },
+      },
+    },
+  ],
+};
+
+export const QueryOptionsSchema = defineSchema("QueryOptions", {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    uniqueBy: ColumnList,
+    search: SearchOptionsSchema,
+    groupBy: ColumnList,
+    aggregates: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["fn"],
+        additionalProperties: false,
+        properties: {
+          fn: {
+            type: "string",
+            description:
+              "count, count_distinct, sum, avg, min, max, first or last",
+          },
+          field: { type: "string" },
+          as: { type: "string" },
+        },
+      },
+    },
+    having: WhereSchema,
+    orderBy: {
+      anyOf: [...OrderByItem.anyOf!, { type: "array", items: OrderByItem }],
+    },
+    page: { type: "integer", minimum: 1 },
+    limit: { type: "integer", minimum: 0, description: "0 means no limit." },
+    offset: { type: "integer", minimum: 0 },
+    cursor: { type: "string", description: "`nextCursor` of a previous page." },
+  },
+});
+
+export const RowDataSchema = defineSchema("RowData", {
+  type: "object",
+  description: "Cell values keyed by column header.",
+  minProperties: 1,
+  additionalProperties: true,
+});
+
+const RowList: JsonSchema = {
+  type: "array",
+  items: RowDataSchema,
+  minItems: 1,
+  maxItems: MAX_BULK_ROWS,
+};
+
+export const ReadResultSchema = defineSchema("ReadResult", {
+  type: "object",
+  properties: {
+    sheet: { type: "string" },
+    headers: { type: "array", items: { type: "string" } },
+    rows: { type: "array", items: { type: "object" } },
+    total: { type: "integer" },
+    page: { type: "integer" },
+    limit: { type: "integer" },
+    offset: { type: "integer" },
+    hasNextPage: { type: "boolean" },
+    nextCursor: { type: ["string", "null"] },
+  },
+});
+
+export const ErrorSchema = defineSchema("Error", {
+  type: "object",
+  properties: {
+    message: { type: "string" },
+    status: { type: "integer" },
+    errors: {
+      type: "array",
+      description: "Per-field problems, when there are several.",
+      items: { type: "object" },
+    },
+  },
+});
+
+// Query parameters used by several routes.
+
+const sheet: ParameterDefinition = {
+  required: true,
+  description: "Tab name.",
+  schema: { type: "string", minLength: 1 },
+};
+
+const optionalSheet: ParameterDefinition = {
+  description: "Tab name; the whole spreadsheet when omitted.",
+  schema: { type: "string", minLength: 1 },
+};
+
+const strict: ParameterDefinition = {
+  description: "Reject values that don't match the column types.",
+  schema: { type: "boolean", default: false },
+};
+
+const bulkMode: ParameterDefinition = {
+  description:
+    "atomic: any invalid row rejects the batch; partial: invalid rows are skipped.",
+  schema: { type: "string", enum: ["atomic", "partial"], default: "atomic" },
+};
+
+const multiple: ParameterDefinition = {
+  description: "Apply to every matching row instead of the first.",
+  schema: { type: "boolean", default: false },
+};
+
+const format: ParameterDefinition = {
+  description: "Output format; overrides the Accept header.",
+  schema: { type: "string", enum: ["json", "csv", "ndjson", "xlsx"] },
+};
+
+const keys: ParameterDefinition = {
+  description: "Comma-separated key columns.",
+  schema: { type: "string" },
+};
+
+const readFormats = [
+  "application/json",
+  "text/csv",
+  "application/x-ndjson",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+export const routes = {
+  createRow: {
+    method: "POST",
+    path: "/api/:spreadsheetId",
+    operationId: "createRow",
+    summary: "Append a row, or several in one batch",
+    tags: ["Rows"],
+    query: { sheet, strict, mode: bulkMode },
+    body: {
+      required: true,
+      description: "One row, or an array of rows for a bulk insert.",
+      schema: { anyOf: [RowDataSchema, RowList] },
+    },
+    responses: { 201: { description: "Rows appended" } },
+  },
+  updateRows: {
+    method: "PUT",
+    path: "/api/:spreadsheetId",
+    operationId: "updateRows",
+    summary: "Update the rows matching a where clause",
+    tags: ["Rows"],
+    query: {
+      sheet,
+      strict,
+      multiple,
+      upsert: {
+        description: "Append `data` as a new row when nothing matched.",
+        schema: { type: "boolean", default: false },
+      },
+    },
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["data"],
+        properties: { data: RowDataSchema, where: OptionalWhere },
+      },
+    },
+  },
+  deleteRows: {
+    method: "DELETE",
+    path: "/api/:spreadsheetId",
+    operationId: "deleteRows",
+    summary: "Delete the rows matching a where clause",
+    tags: ["Rows"],
+    query: { sheet, multiple },
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["where"],
+        properties: { where: WhereSchema },
+      },
+    },
+    responses: { 200: { description: "Rows deleted" } },
+  },
+  readRows: {
+    method: "POST",
+    path: "/api/:spreadsheetId/read",
+    operationId: "readRows",
+    summary: "Read rows with a where clause and query options",
+    tags: ["Rows"],
+    query: {
+      sheet,
+      format,
+      stream: {
+        description: "Stream rows as they are read (NDJSON by default).",
+        schema: { type: "boolean", default: false },
+      },
+    },
+    body: {
+      schema: {
+        type: "object",
+        properties: { where: OptionalWhere, options: QueryOptionsSchema },
+      },
+    },
+    responses: {
+      200: {
+        description: "Matching rows",
+        schema: ReadResultSchema,
+        contentTypes: readFormats,
+      },
+    },
+  },
+  readRowsByQuery: {
+    method: "GET",
+    path: "/api/:spreadsheetId",
+    operationId: "readRowsByQuery",
+    summary: "Read rows with filters in the query string",
+    description:
+      "Any other parameter is a filter: `field[operator]=value`, or `field=value` for eq. List operators take comma-separated values. Responses carry ETag and Last-Modified; conditional requests for unchanged data get 304.",
+    tags: ["Rows"],
+    query: {
+      sheet,
+      format,
+      search: { description: "Fuzzy search term.", schema: { type: "string" } },
+      uniqueBy: {
+        description: "Comma-separated columns.",
+        schema: { type: "string" },
+      },
+      orderBy: {
+        description: 'Comma-separated, e.g. "amount desc,id".',
+        schema: { type: "string" },
+      },
+      page: { schema: { type: "integer", minimum: 1 } },
+      limit: { schema: { type: "integer", minimum: 0 } },
+      offset: { schema: { type: "integer", minimum: 0 } },
+      cursor: { schema: { type: "string" } },
+    },
+    responses: {
+      200: {
+        description: "Matching rows",
+        schema: ReadResultSchema,
+        contentTypes: readFormats,
+      },
+      304: { description: "Not modified" },
+    },
+  },
+  upsertRows: {
+    method: "POST",
+    path: "/api/:spreadsheetId/upsert",
+    operationId: "upsertRows",
+    summary: "Insert or update rows by key columns",
+    tags: ["Rows"],
+    query: { sheet, strict, mode: bulkMode, keys },
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["records"],
+        properties: { records: RowList, keys: ColumnList },
+      },
+    },
+    responses: { 200: { description: "Rows inserted or updated" } },
+  },
+  importRows: {
+    method: "POST",
+    path: "/api/:spreadsheetId/import",
+    operationId: "importRows",
+    summary: "Import a CSV or NDJSON upload",
+    tags: ["Rows"],
+    query: {
+      sheet,
+      strict,
+      keys,
+      mode: {
+        schema: {
+          type: "string",
+          enum: ["append", "replace", "upsert"],
+          default: "append",
+        },
+      },
+      format: {
+        description: "Defaults to the body's Content-Type.",
+        schema: { type: "string", enum: ["csv", "ndjson"] },
+      },
+      mapping: {
+        description: "Source column to sheet column (null skips it).",
+        json: true,
+        schema: {
+          type: "object",
+          additionalProperties: { type: ["string", "null"] },
+        },
+      },
+    },
+    body: {
+      required: true,
+      contentTypes: ["text/csv", "application/x-ndjson"],
+      schema: { type: "string" },
+    },
+    responses: { 200: { description: "Import report" } },
+  },
+  runQuery: {
+    method: "GET",
+    path: "/api/:spreadsheetId/query",
+    operationId: "runQuery",
+    summary: "Run a SQL-like query",
+    tags: ["Rows"],
+    query: {
+      q: {
+        required: true,
+        description: "e.g. SELECT email, amount FROM Orders WHERE amount > 10",
+        schema: { type: "string", minLength: 1 },
+      },
+      format,
+    },
+    responses: {
+      200: { description: "Query result", contentTypes: readFormats },
+    },
+  },
+  invalidateCache: {
+    method: "POST",
+    path: "/api/:spreadsheetId/cache/invalidate",
+    operationId: "invalidateCache",
+    summary: "Drop cached reads",
+    tags: ["Cache"],
+    query: { sheet: optionalSheet },
+    responses: { 200: { description: "Cache invalidated" } },
+  },
+  cacheStats: {
+    method: "GET",
+    path: "/api/cache/stats",
+    operationId: "cacheStats",
+    summary: "Read cache counters",
+    tags: ["Cache"],
+  },
+  listSheets: {
+    method: "GET",
+    path: "/api/:spreadsheetId/sheets",
+    operationId: "listSheets",
+    summary: "List the spreadsheet's tabs",
+    tags: ["Tabs"],
+  },
+  getSheetHeaders: {
+    method: "GET",
+    path: "/api/:spreadsheetId/sheets/:sheet/headers",
+    operationId: "getSheetHeaders",
+    summary: "Describe a tab's columns",
+    tags: ["Tabs"],
+  },
+  createTab: {
+    method: "POST",
+    path: "/api/:spreadsheetId/sheets",
+    operationId: "createTab",
+    summary: "Add a tab",
+    tags: ["Tabs"],
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["title"],
+        properties: {
+          title: { type: "string", minLength: 1, maxLength: 100 },
+          headers: { type: "array", items: { type: "string" } },
+          index: { type: "integer", minimum: 0 },
+          frozenRowCount: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+  },
+  updateTab: {
+    method: "PATCH",
+    path: "/api/:spreadsheetId/sheets/:sheet",
+    operationId: "updateTab",
+    summary: "Rename, move or freeze rows of a tab",
+    tags: ["Tabs"],
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        properties: {
+          title: { type: "string", minLength: 1, maxLength: 100 },
+          index: { type: "integer", minimum: 0 },
+          frozenRowCount: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+  },
+  deleteTab: {
+    method: "DELETE",
+    path: "/api/:spreadsheetId/sheets/:sheet",
+    operationId: "deleteTab",
+    summary: "Delete a tab",
+    tags: ["Tabs"],
+    responses: { 200: { description: "Tab deleted" } },
+  },
+  addColumn: {
+    method: "POST",
+    path: "/api/:spreadsheetId/sheets/:sheet/columns",
+    operationId: "addColumn",
+    summary: "Add a column",
+    tags: ["Tabs"],
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["name"],
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 100 },
+          position: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+  },
+  updateColumn: {
+    method: "PATCH",
+    path: "/api/:spreadsheetId/sheets/:sheet/columns/:column",
+    operationId: "updateColumn",
+    summary: "Rename or move a column",
+    tags: ["Tabs"],
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        minProperties: 1,
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 100 },
+          position: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+  },
+  deleteColumn: {
+    method: "DELETE",
+    path: "/api/:spreadsheetId/sheets/:sheet/columns/:column",
+    operationId: "deleteColumn",
+    summary: "Delete a column",
+    tags: ["Tabs"],
+    responses: { 200: { description: "Column deleted" } },
+  },
+  subscribe: {
+    method: "POST",
+    path: "/api/:spreadsheetId/subscribe",
+    operationId: "subscribe",
+    summary: "Stream a live query as Server-Sent Events",
+    tags: ["Live"],
+    query: { sheet },
+    body: {
+      schema: {
+        type: "object",
+        properties: {
+          where: WhereSchema,
+          options: QueryOptionsSchema,
+          key: { type: "array", items: { type: "string" }, minItems: 1 },
+        },
+      },
+    },
+    responses: {
+      200: { description: "Event stream", contentTypes: ["text/event-stream"] },
+    },
+  },
+  subscribeByQuery: {
+    method: "GET",
+    path: "/api/:spreadsheetId/subscribe",
+    operationId: "subscribeByQuery",
+    summary: "Stream a live query given in the URL (for EventSource)",
+    tags: ["Live"],
+    query: {
+      sheet,
+      where: { json: true, schema: WhereSchema },
+      options: { json: true, schema: QueryOptionsSchema },
+      key: {
+        description: "Comma-separated columns.",
+        schema: { type: "string" },
+      },
+    },
+    responses: {
+      200: { description: "Event stream", contentTypes: ["text/event-stream"] },
+    },
+  },
+  listWatches: {
+    method: "GET",
+    path: "/api/:spreadsheetId/watches",
+    operationId: "listWatches",
+    summary: "List watched tabs",
+    tags: ["Change feed"],
+  },
+  createWatch: {
+    method: "POST",
+    path: "/api/:spreadsheetId/watches",
+    operationId: "createWatch",
+    summary: "Watch a tab for changes",
+    tags: ["Change feed"],
+    query: { sheet },
+    body: {
+      schema: {
+        type: "object",
+        properties: {
+          key: {
+            type: ["string", "null"],
+            description: "Column identifying rows; row positions when null.",
+          },
+          intervalMs: { type: "integer", minimum: WATCH_MIN_INTERVAL_MS },
+        },
+      },
+    },
+  },
+  deleteWatch: {
+    method: "DELETE",
+    path: "/api/:spreadsheetId/watches",
+    operationId: "deleteWatch",
+    summary: "Stop watching a tab",
+    tags: ["Change feed"],
+    query: { sheet },
+    responses: { 200: { description: "Watch removed" } },
+  },
+  listWebhooks: {
+    method: "GET",
+    path: "/api/:spreadsheetId/webhooks",
+    operationId: "listWebhooks",
+    summary: "List webhooks",
+    tags: ["Change feed"],
+  },
+  createWebhook: {
+    method: "POST",
+    path: "/api/:spreadsheetId/webhooks",
+    operationId: "createWebhook",
+    summary: "Register a webhook",
+    tags: ["Change feed"],
+    query: { sheet: optionalSheet },
+    body: {
+      required: true,
+      schema: {
+        type: "object",
+        required: ["url"],
+        properties: {
+          url: { type: "string", format: "uri" },
+          secret: { type: "string", minLength: 16 },
+          events: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "string",
+              enum: ["row.created", "row.updated", "row.deleted", "*"],
+            },
+          },
+        },
+      },
+    },
+  },
+  deleteWebhook: {
+    method: "DELETE",
+    path: "/api/:spreadsheetId/webhooks/:webhookId",
+    operationId: "deleteWebhook",
+    summary: "Delete a webhook",
+    tags: ["Change feed"],
+    responses: { 200: { description: "Webhook deleted" } },
+  },
+  openApiDocument: {
+    method: "GET",
+    path: "/openapi.json",
+    operationId: "openApiDocument",
+    summary: "This document",
+    tags: ["Docs"],
+    public: true,
+  },
+  docs: {
+    method: "GET",
+    path: "/docs",
+    operationId: "docs",
+    summary: "API reference page",
+    tags: ["Docs"],
+    public: true,
+    responses: {
+      200: { description: "HTML page", contentTypes: ["text/html"] },
+    },
+  },
+} satisfies Record<string, RouteDefinition>;
+
+export const routeDefinitions: RouteDefinition[] = Object.values(routes);
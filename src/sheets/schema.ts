@@ -0,0 +1,426 @@
+import { existsSync, readFileSync } from "node:fs";
+import { ValidationException, type FieldError } from "../common/exceptions";
+import { parseDate } from "../utils/dates";
+
+export type ColumnType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "json";
+
+// `type` drives both read casting and write checks; the remaining rules only
+// apply to createRow/updateSheet writes. `min`/`max` bound numbers and dates
+// by value and everything else by string length.
+export type ColumnSchema = {
+  type?: ColumnType;
+  required?: boolean;
+  enum?: (string | number | boolean)[];
+  pattern?: string;
+  min?: number | string;
+  max?: number | string;
+  unique?: boolean;
+};
+
+export type SheetConfig = {
+  columns?: Record<string, ColumnSchema>;
+  // Set to false to skip sampling and treat undeclared columns as strings.
+  inferTypes?: boolean;
+  // Reject written keys that are not sheet headers instead of dropping them.
+  strict?: boolean;
+};
+
+export type WriteOptions = {
+  // Updates only check the columns they set.
+  partial?: boolean;
+  strict?: boolean;
+  // Row positions being overwritten, ignored by uniqueness checks.
+  excludeRows?: Set<number>;
+  // Number of rows the same values will be written to.
+  targetCount?: number;
+};
+
+type RowDict = Record<string, any>;
+
+// Shape of the file at SHEETS_CONFIG_PATH. Sheets are looked up under the
+// spreadsheet id first, then under "*".
+export type SheetsConfig = {
+  spreadsheets?: Record<string, { sheets?: Record<string, SheetConfig> }>;
+};
+
+export type SheetSchema = {
+  types: Record<string, ColumnType>;
+  declared: string[];
+};
+
+const COLUMN_TYPES: ColumnType[] = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "datetime",
+  "json",
+];
+const SAMPLE_SIZE = 200;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_PATTERNS = [ISO_DATE_PATTERN, /^\d{1,2}\/\d{1,2}\/\d{4}$/];
+const DATETIME_PATTERNS = [
+  /^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  /^\d{1,2}\/\d{1,2}\/\d{4},? \d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?$/i,
+];
+
+const isBlank = (value: any): boolean =>
+  value === null || value === undefined || value === "";
+
+export class SchemaService {
+  private static instance: SchemaService;
+  private config: SheetsConfig;
+  // Keyed by the grid returned from readValues, so a cached read is only
+  // sampled once and a fresh read is re-inferred.
+  private inferred = new WeakMap<object, Record<string, ColumnType>>();
+
+  private constructor(configPath?: string) {
+    this.config = this.loadConfig(configPath);
+  }
+
+  static getInstance(): SchemaService {
+    if (!SchemaService.instance) {
+      SchemaService.instance = new SchemaService(
+        process.env.SHEETS_CONFIG_PATH
+      );
+    }
+    return SchemaService.instance;
+  }
+
+  private loadConfig(configPath = "sheets.config.json"): SheetsConfig {
+    if (!existsSync(configPath)) return {};
+
+    try {
+      const parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+      this.validateConfig(parsed);
+      return parsed as SheetsConfig;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to load sheets config from ${configPath}: ${error?.message}`
+      );
+    }
+  }
+
+  private validateConfig(config: any): void {
+    for (const [spreadsheetId, spreadsheet] of Object.entries<any>(
+      config?.spreadsheets ?? {}
+    )) {
+      for (const [sheetName, sheet] of Object.entries<any>(
+        spreadsheet?.sheets ?? {}
+      )) {
+        for (const [column, schema] of Object.entries<any>(
+          sheet?.columns ?? {}
+        )) {
+          const where = `${spreadsheetId}/${sheetName}/${column}`;
+          if (schema?.type && !COLUMN_TYPES.includes(schema.type)) {
+            throw new Error(`${where}: unknown type "${schema.type}"`);
+          }
+          if (schema?.pattern !== undefined) {
+            try {
+              new RegExp(schema.pattern);
+            } catch {
+              throw new Error(`${where}: invalid pattern "${schema.pattern}"`);
+            }
+          }
+          if (schema?.enum !== undefined && !Array.isArray(schema.enum)) {
+            throw new Error(`${where}: enum must be an array`);
+          }
+        }
+      }
+    }
+  }
+
+  getSheetConfig(spreadsheetId: string, sheetName: string): SheetConfig {
+    const spreadsheets = this.config.spreadsheets ?? {};
+    return (
+      spreadsheets[spreadsheetId]?.sheets?.[sheetName] ??
+      spreadsheets["*"]?.sheets?.[sheetName] ??
+      {}
+    );
+  }
+
+  // Declared column types win; the rest are inferred from a sample of rows.
+  resolve(
+    spreadsheetId: string,
+    sheetName: string,
+    values: any[][]
+  ): SheetSchema {
+    const headers = (values[0] ?? []) as string[];
+    const config = this.getSheetConfig(spreadsheetId, sheetName);
+    const columns = config.columns ?? {};
+
+    let inferred: Record<string, ColumnType> = {};
+    if (config.inferTypes !== false) {
+      inferred = this.inferred.get(values) ?? this.infer(headers, values);
+      this.inferred.set(values, inferred);
+    }
+
+    const types: Record<string, ColumnType> = {};
+    const declared: string[] = [];
+    headers.forEach((header) => {
+      const declaredType = columns[header]?.type;
+      if (declaredType) declared.push(header);
+      types[header] = declaredType ?? inferred[header] ?? "string";
+    });
+
+    return { types, declared };
+  }
+
+  private infer(
+    headers: string[],
+    values: any[][]
+  ): Record<string, ColumnType> {
+    const sample = values.slice(1, SAMPLE_SIZE + 1);
+    const types: Record<string, ColumnType> = {};
+
+    headers.forEach((header, col) => {
+      const cells = sample.map((row) => row[col]).filter((v) => !isBlank(v));
+      types[header] = this.detectType(cells);
+    });
+
+    return types;
+  }
+
+  // A column takes the narrowest type every sampled cell satisfies. Date
+  // shapes are matched explicitly, so "1" or "2024" stay numbers.
+  private detectType(cells: any[]): ColumnType {
+    if (cells.length === 0) return "string";
+
+    const all = (test: (v: any) => boolean) => cells.every(test);
+    const asText = (v: any) => String(v).trim();
+
+    if (
+      all((v) => typeof v === "boolean" || /^(true|false)$/i.test(asText(v)))
+    ) {
+      return "boolean";
+    }
+    if (all((v) => typeof v === "number" || NUMBER_PATTERN.test(asText(v)))) {
+      return "number";
+    }
+    if (all((v) => DATE_PATTERNS.some((p) => p.test(asText(v))))) {
+      return "date";
+    }
+    if (
+      all(
+        (v) =>
+          DATE_PATTERNS.some((p) => p.test(asText(v))) ||
+          DATETIME_PATTERNS.some((p) => p.test(asText(v)))
+      )
+    ) {
+      return "datetime";
+    }
+    if (all((v) => this.parseJson(v) !== undefined)) {
+      return "json";
+    }
+    return "string";
+  }
+
+  private parseJson(value: any): any {
+    const text = String(value).trim();
+    if (!text.startsWith("{") && !text.startsWith("[")) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Converts a cell to its JSON representation. Empty cells become null in
+  // every column type; values that do not fit the type pass through. Dates
+  // without an offset are read as UTC.
+  castValue(value: any, type: ColumnType): any {
+    if (isBlank(value)) return null;
+
+    switch (type) {
+      case "number": {
+        if (typeof value === "number") return value;
+        const text = String(value).trim();
+        return NUMBER_PATTERN.test(text) ? Number(text) : value;
+      }
+      case "boolean": {
+        if (typeof value === "boolean") return value;
+        const text = String(value).trim().toLowerCase();
+        if (["true", "t", "yes", "y", "1"].includes(text)) return true;
+        if (["false", "f", "no", "n", "0"].includes(text)) return false;
+        return value;
+      }
+      case "date": {
+        const text = String(value).trim();
+        if (ISO_DATE_PATTERN.test(text)) return text;
+        const date = parseDate(text);
+        return date ? date.toISOString().slice(0, 10) : value;
+      }
+      case "datetime": {
+        const date = parseDate(String(value));
+        return date ? date.toISOString() : value;
+      }
+      case "json": {
+        if (typeof value === "object") return value;
+        const parsed = this.parseJson(value);
+        return parsed === undefined ? value : parsed;
+      }
+      default:
+        return typeof value === "string" ? value : String(value);
+    }
+  }
+
+  castRows(
+    rows: Record<string, any>[],
+    schema: SheetSchema
+  ): Record<string, any>[] {
+    const entries = Object.entries(schema.types);
+    for (const row of rows) {
+      for (const [column, type] of entries) {
+        if (column in row) {
+          row[column] = this.castValue(row[column], type);
+        }
+      }
+    }
+    return rows;
+  }
+
+  // Checks a write against the sheet's column rules and returns the record
+  // with values converted to their column type (e.g. "12" -> 12, objects ->
+  // JSON text). Every failing field is reported in one ValidationException.
+  validateWrite(
+    spreadsheetId: string,
+    sheetName: string,
+    headers: string[],
+    existingRows: RowDict[],
+    data: RowDict,
+    options: WriteOptions = {}
+  ): RowDict {
+    const config = this.getSheetConfig(spreadsheetId, sheetName);
+    const columns = config.columns ?? {};
+    const errors: FieldError[] = [];
+    const record: RowDict = { ...data };
+
+    if (options.strict || config.strict) {
+      const known = new Set(headers);
+      for (const key of Object.keys(data)) {
+        if (!known.has(key)) {
+          errors.push({
+            field: key,
+            rule: "unknown",
+            message: `"${key}" is not a column of ${sheetName}`,
+          });
+        }
+      }
+    }
+
+    for (const [column, rules] of Object.entries(columns)) {
+      if (!headers.includes(column)) continue;
+      if (options.partial && !(column in data)) continue;
+
+      const fail = (rule: string, message: string) =>
+        errors.push({ field: column, rule, message });
+      const value = data[column];
+
+      if (isBlank(value)) {
+        if (rules.required) fail("required", `"${column}" is required`);
+        continue;
+      }
+
+      const type = rules.type ?? "string";
+      const converted = this.toWriteValue(value, type);
+      if (converted === undefined) {
+        fail("type", `"${column}" must be a ${type}`);
+        continue;
+      }
+      record[column] = converted;
+
+      if (rules.enum && !rules.enum.map(String).includes(String(converted))) {
+        fail("enum", `"${column}" must be one of: ${rules.enum.join(", ")}`);
+      }
+
+      if (rules.pattern && !new RegExp(rules.pattern).test(String(converted))) {
+        fail("pattern", `"${column}" must match ${rules.pattern}`);
+      }
+
+      const rangeError = this.checkRange(converted, type, rules);
+      if (rangeError)
+        fail(rangeError.rule, `"${column}" ${rangeError.message}`);
+
+      if (rules.unique) {
+        const key = String(converted);
+        const taken = existingRows.some(
+          (row, index) =>
+            !options.excludeRows?.has(index) &&
+            String(row[column] ?? "") === key
+        );
+        if (taken) {
+          fail("unique", `"${column}" must be unique; "${key}" already exists`);
+        } else if ((options.targetCount ?? 1) > 1) {
+          fail(
+            "unique",
+            `"${column}" must be unique; cannot set "${key}" on ${options.targetCount} rows`
+          );
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationException(errors);
+    }
+
+    return record;
+  }
+
+  // Returns the value to store for a column type, or undefined when the value
+  // cannot represent that type.
+  private toWriteValue(value: any, type: ColumnType): any {
+    switch (type) {
+      case "number": {
+        const num = this.castValue(value, "number");
+        return typeof num === "number" && Number.isFinite(num)
+          ? num
+          : undefined;
+      }
+      case "boolean": {
+        const bool = this.castValue(value, "boolean");
+        return typeof bool === "boolean" ? bool : undefined;
+      }
+      case "date":
+      case "datetime": {
+        if (typeof value !== "string") return undefined;
+        return parseDate(value) ? value : undefined;
+      }
+      case "json": {
+        if (typeof value === "object") return JSON.stringify(value);
+        return this.parseJson(value) === undefined ? undefined : value;
+      }
+      default:
+        return typeof value === "object" ? undefined : value;
+    }
+  }
+
+  private checkRange(
+    value: any,
+    type: ColumnType,
+    rules: ColumnSchema
+  ): { rule: string; message: string } | null {
+    const isDate = type === "date" || type === "datetime";
+    // Dates compare as timestamps; non-numeric columns compare by length.
+    const toBound = (v: any): number =>
+      isDate ? parseDate(String(v))?.getTime() ?? NaN : Number(v);
+    const measure =
+      type === "number" || isDate ? toBound(value) : String(value).length;
+    const unit = type === "number" || isDate ? "" : " characters";
+
+    if (rules.min !== undefined && measure < toBound(rules.min)) {
+      return { rule: "min", message: `must be at least ${rules.min}${unit}` };
+    }
+    if (rules.max !== undefined && measure > toBound(rules.max)) {
+      return { rule: "max", message: `must be at most ${rules.max}${unit}` };
+    }
+    return null;
+  }
+}
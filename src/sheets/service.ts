@@ -1,11 +1,34 @@
-import { google } from "googleapis";
-import type { sheets_v4 } from "googleapis";
+import { createHash } from "node:crypto";
 import Fuse from "fuse.js";
 import { FiltersService } from "./filters";
+import { AggregatesService, type AggregateSpec } from "./aggregates";
+import {
+  SchemaService,
+  type ColumnType,
+  type SheetSchema,
+  type WriteOptions,
+} from "./schema";
+import {
+  createSheetsBackend,
+  type SheetProperties,
+  type SheetsBackend,
+  type SpreadsheetMetadata,
+  type SpreadsheetRequest,
+  type ValueRange,
+} from "./backends";
+import { STREAM_CHUNK_ROWS } from "../constants";
+import { createCacheStore, type CacheStats, type CacheStore } from "./cache";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PreconditionFailedException,
+  ValidationException,
+  type FieldError,
+} from "../common/exceptions";
 
 type RowDict = Record<string, any>;
 type CacheKey = string;
-type CacheEntry = { timestamp: number; data: string[][] };
 export type SearchOptions = {
   term: string;
   keys?: string[];
@@ -14,22 +37,115 @@ export type SearchOptions = {
   minMatchCharLength?: number;
 };
 
+export type SortDirection = "asc" | "desc";
+
+export type OrderByClause = {
+  field: string;
+  direction?: SortDirection;
+};
+
 export type SheetQueryOptions = {
   uniqueBy?: string | string[];
   search?: SearchOptions;
+  groupBy?: string | string[];
+  aggregates?: AggregateSpec[];
+  having?: any;
+  orderBy?: string | OrderByClause | (string | OrderByClause)[];
+  page?: number;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+};
+
+// atomic: any invalid row rejects the whole batch; partial: invalid rows are
+// skipped and the rest are written.
+export type BulkMode = "atomic" | "partial";
+
+export type BulkRowResult = {
+  index: number;
+  status: "appended" | "invalid";
+  errors?: FieldError[];
+};
+
+export type UpsertRowResult = {
+  index: number;
+  status: "inserted" | "updated" | "unchanged" | "invalid";
+  errors?: FieldError[];
+};
+
+// `ifMatch` carries the client's If-Match header; writes fail with 412 when
+// it no longer matches the sheet's current ETag.
+export type WriteRequestOptions = Pick<WriteOptions, "strict"> & {
+  ifMatch?: string | null;
+};
+
+// A sheet's grid as bulk writes last left it. Passing the same snapshot to
+// consecutive bulk writes (as imports do) reads the sheet once: the first
+// write fills `values` and each write updates it in place.
+export type SheetSnapshot = { values: any[][] | null };
+
+export type SheetColumn = {
+  name: string;
+  index: number;
+  type: ColumnType | null;
+  // True when the type comes from the sheet config rather than inference.
+  declared: boolean;
+};
+
+export type RowChangeType = "row.created" | "row.updated" | "row.deleted";
+
+// One row-level edit. `rowNumber` is the 1-based sheet row (the header is
+// row 1); for deletions it is the row's position before the delete.
+export type RowChange = {
+  type: RowChangeType;
+  spreadsheetId: string;
+  sheet: string;
+  rowNumber: number;
+  row?: RowDict;
+  previous?: RowDict;
+};
+
+export type RowChangeListener = (changes: RowChange[]) => void;
+
+export type PaginationMeta = {
+  total: number;
+  page: number;
+  limit: number;
+  offset: number;
+  hasNextPage: boolean;
+  nextCursor: string | null;
 };
 
 export class GoogleSheetsService {
   private static instance: GoogleSheetsService;
-  private sheetsApi: sheets_v4.Sheets | null = null;
-  private credentials: any = null;
-  private readCache = new Map<CacheKey, CacheEntry>();
+  private backend: SheetsBackend = createSheetsBackend();
   private inflightReads = new Map<CacheKey, Promise<string[][]>>();
   private readonly CACHE_TTL: number =
     parseInt(process.env.CACHE_TTL_MS || "10000") || 10000; // default 10s
   private readonly CACHE_MAX_ENTRIES: number =
     parseInt(process.env.CACHE_MAX_ENTRIES || "200") || 200; // cap entries for memory
+  // Extra time past CACHE_TTL during which stale data is served while it is
+  // refreshed in the background. 0 disables stale-while-revalidate.
+  private readonly CACHE_SWR: number =
+    parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE_MS || "0") || 0;
+  // Bumped on every invalidation so metadata reads in flight don't re-cache
+  // old data. Cached reads use the epoch kept in their store instead.
+  private cacheEpochs = new Map<string, number>();
+  private metadataCache = new Map<
+    string,
+    { timestamp: number; data: SpreadsheetMetadata }
+  >();
+  private inflightMetadata = new Map<string, Promise<SpreadsheetMetadata>>();
+  private readCache: CacheStore = createCacheStore({
+    maxAgeMs: this.CACHE_TTL + this.CACHE_SWR,
+    maxEntries: this.CACHE_MAX_ENTRIES,
+  });
   private filtersService = new FiltersService();
+  private aggregatesService = new AggregatesService(this.filtersService);
+  private schemaService = SchemaService.getInstance();
+  private changeListeners = new Set<RowChangeListener>();
+  // When each tab's current content was first read, by spreadsheet and tab.
+  private contentSeen = new Map<string, { etag: string; at: number }>();
 
   private constructor() {}
 
@@ -42,8 +158,10 @@ export class GoogleSheetsService {
 
   async warmup(): Promise<void> {
     try {
-      console.log("🔧 Initializing Google Sheets service...");
-      await this.getSheetsApi();
+      console.log(
+        `🔧 Initializing Google Sheets service (${this.backend.name} backend)...`
+      );
+      await this.backend.connect();
 
       const dummySheetId = process.env.DUMMY_SHEET_ID;
       const dummySheetName = process.env.DUMMY_SHEET_NAME || "";
@@ -67,53 +185,110 @@ export class GoogleSheetsService {
     }
   }
 
-  private async loadCredentials(): Promise<any> {
-    if (this.credentials) return this.credentials;
+  // "Sheet1", "'Sheet1'" and "Sheet1!a:zzz" all read the same cells, so they
+  // share one cache entry.
+  private canonicalRange(range: string): { sheet: string; range: string } {
+    const bang = range.lastIndexOf("!");
+    const rawSheet = bang === -1 ? range : range.slice(0, bang);
+    const cells =
+      bang === -1 ? "A:ZZZ" : range.slice(bang + 1).replace(/\$/g, "");
+    const sheet = /^'.*'$/.test(rawSheet)
+      ? rawSheet.slice(1, -1).replace(/''/g, "'")
+      : rawSheet;
+    const quoted = /^[A-Za-z0-9_]+$/.test(sheet)
+      ? sheet
+      : `'${sheet.replace(/'/g, "''")}'`;
+    return { sheet, range: `${quoted}!${cells.toUpperCase()}` };
+  }
 
-    const serviceAccountB64 = process.env.GOOGLE_SERVICE_ACCOUNT_INFO_B64;
-    if (!serviceAccountB64) {
-      throw new Error(
-        "Missing GOOGLE_SERVICE_ACCOUNT_INFO_B64 environment variable"
-      );
-    }
+  // Drops cached and in-flight reads for one sheet, or for every sheet of
+  // the spreadsheet. Reads already in flight finish for their callers but are
+  // not written back to the cache. Returns the number of entries dropped.
+  async invalidateCache(
+    spreadsheetId: string,
+    sheetName?: string
+  ): Promise<number> {
+    this.cacheEpochs.set(
+      spreadsheetId,
+      (this.cacheEpochs.get(spreadsheetId) ?? 0) + 1
+    );
+    await this.readCache.bumpEpoch(spreadsheetId);
 
-    try {
-      const serviceAccountInfo = JSON.parse(
-        Buffer.from(serviceAccountB64, "base64").toString("utf-8")
+    const matches = (key: CacheKey) => {
+      if (!key.startsWith(`${spreadsheetId}:`)) return false;
+      if (sheetName === undefined) return true;
+      const { sheet } = this.canonicalRange(
+        key.slice(spreadsheetId.length + 1)
       );
+      return sheet === this.canonicalRange(sheetName).sheet;
+    };
 
-      const auth = new google.auth.GoogleAuth({
-        credentials: serviceAccountInfo,
-        scopes: ["https://www.googleapis.com/auth/spreadsheets"],
-      });
-
-      this.credentials = await auth.getClient();
-      return this.credentials;
-    } catch (error) {
-      throw new Error("Failed to parse Google service account credentials");
+    for (const key of [...this.inflightReads.keys()]) {
+      if (matches(key)) this.inflightReads.delete(key);
     }
+    // Row counts and tab lists change with any write, so metadata always goes.
+    this.metadataCache.delete(spreadsheetId);
+    this.inflightMetadata.delete(spreadsheetId);
+
+    let dropped = 0;
+    for (const key of await this.readCache.keys(`${spreadsheetId}:`)) {
+      if (matches(key) && (await this.readCache.delete(key))) {
+        dropped++;
+      }
+    }
+    return dropped;
   }
 
-  private async getSheetsApi(): Promise<sheets_v4.Sheets> {
-    if (this.sheetsApi) return this.sheetsApi;
+  // Runs a write and invalidates the sheet's cached reads afterwards, also
+  // when the write fails part-way.
+  private async writeThrough<T>(
+    spreadsheetId: string,
+    sheetName: string,
+    write: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await write();
+    } finally {
+      await this.invalidateCache(spreadsheetId, sheetName);
+    }
+  }
 
-    const auth = await this.loadCredentials();
-    this.sheetsApi = google.sheets({ version: "v4", auth });
-    return this.sheetsApi;
+  // Subscribes to row edits made through this service. Returns a function
+  // that removes the listener.
+  onRowChanges(listener: RowChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
   }
 
-  private pruneCache(now: number): void {
-    for (const [key, entry] of this.readCache) {
-      if (now - entry.timestamp > this.CACHE_TTL) {
-        this.readCache.delete(key);
+  private emitChanges(changes: RowChange[]): void {
+    if (changes.length === 0) return;
+    for (const listener of this.changeListeners) {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.warn("⚠️  Row change listener failed:", error);
       }
     }
+  }
+
+  private toRowDict(headers: string[], row: any[]): RowDict {
+    return this.normalizeRows(headers, [row])[0]!;
+  }
 
-    while (this.readCache.size > this.CACHE_MAX_ENTRIES) {
-      const oldestKey = this.readCache.keys().next().value;
-      if (!oldestKey) break;
-      this.readCache.delete(oldestKey);
+  // Fetches `range` fresh without reading or evicting its cache entry, for
+  // pollers that must see the sheet as it is now on every call.
+  async readUncached(
+    spreadsheetId: string,
+    range: string
+  ): Promise<string[][]> {
+    const trimmedRange = range?.trim();
+    if (!trimmedRange) {
+      throw new Error("Range must be a non-empty string");
     }
+    return this.fetchSheetValues(
+      spreadsheetId,
+      this.canonicalRange(trimmedRange).range
+    );
   }
 
   async readValues(
@@ -126,75 +301,249 @@ export class GoogleSheetsService {
       throw new Error("Range must be a non-empty string");
     }
 
-    const cacheKey = `${spreadsheetId}:${trimmedRange}`;
-    const now = Date.now();
+    const canonical = this.canonicalRange(trimmedRange).range;
+    const cacheKey = `${spreadsheetId}:${canonical}`;
+
+    if (!useCache) {
+      await this.readCache.delete(cacheKey);
+      return this.fetchSheetValues(spreadsheetId, canonical);
+    }
 
-    // Check cache (LRU semantics: if hit, re-insert to mark as recently used)
-    if (useCache && this.readCache.has(cacheKey)) {
-      const entry = this.readCache.get(cacheKey)!;
-      if (now - entry.timestamp <= this.CACHE_TTL) {
-        // Refresh insertion order for LRU
-        this.readCache.delete(cacheKey);
-        this.readCache.set(cacheKey, entry);
-        return entry.data;
+    // The store drops entries older than CACHE_TTL + CACHE_SWR itself.
+    const entry = await this.readCache.get(cacheKey);
+    if (entry) {
+      const age = Date.now() - entry.timestamp;
+      if (age > this.CACHE_TTL && !this.inflightReads.has(cacheKey)) {
+        // Stale but within the revalidate window: serve it and refresh in
+        // the background.
+        this.fetchAndCache(spreadsheetId, canonical, cacheKey).catch(
+          () => undefined
+        );
       }
-      this.readCache.delete(cacheKey);
+      return entry.data;
     }
 
-    if (!useCache) {
-      this.readCache.delete(cacheKey);
-    } else if (this.inflightReads.has(cacheKey)) {
-      const pending = this.inflightReads.get(cacheKey)!;
+    const pending = this.inflightReads.get(cacheKey);
+    if (pending) {
       return pending;
     }
 
-    const fetchPromise = this.fetchSheetValues(
-      spreadsheetId,
-      trimmedRange
-    ).then((values) => {
-      if (useCache) {
-        this.pruneCache(now);
-        this.readCache.set(cacheKey, { timestamp: now, data: values });
+    return this.fetchAndCache(spreadsheetId, canonical, cacheKey);
+  }
+
+  private fetchAndCache(
+    spreadsheetId: string,
+    range: string,
+    cacheKey: CacheKey
+  ): Promise<string[][]> {
+    // Read before the fetch starts; a failing store leaves the result
+    // uncached rather than failing the read.
+    const epoch = this.readCache.epoch(spreadsheetId).catch(() => null);
+    const fetchPromise = this.fetchSheetValues(spreadsheetId, range).then(
+      async (values) => {
+        const started = await epoch;
+        if (started === null) return values;
+        // The store skips the write if a write (in any process sharing it)
+        // invalidated the spreadsheet while this read was out.
+        return this.readCache
+          .set(
+            cacheKey,
+            { timestamp: Date.now(), data: values },
+            { scope: spreadsheetId, epoch: started }
+          )
+          .then(
+            () => values,
+            // A failing store must not fail the read itself.
+            () => values
+          );
       }
-      return values;
-    });
+    );
 
-    if (useCache) {
-      this.inflightReads.set(cacheKey, fetchPromise);
-      fetchPromise.finally(() => {
-        this.inflightReads.delete(cacheKey);
-      });
+    this.inflightReads.set(cacheKey, fetchPromise);
+    // Callers observe failures through fetchPromise; the cleanup chain must
+    // not surface a second, unhandled rejection.
+    fetchPromise
+      .finally(() => {
+        if (this.inflightReads.get(cacheKey) === fetchPromise) {
+          this.inflightReads.delete(cacheKey);
+        }
+      })
+      .catch(() => undefined);
+
+    return fetchPromise;
+  }
+
+  // Spreadsheet title and tab properties, cached for CACHE_TTL like reads.
+  async getMetadata(
+    spreadsheetId: string,
+    useCache: boolean = true
+  ): Promise<SpreadsheetMetadata> {
+    const cached = this.metadataCache.get(spreadsheetId);
+    if (useCache && cached && Date.now() - cached.timestamp <= this.CACHE_TTL) {
+      return cached.data;
+    }
+
+    const pending = this.inflightMetadata.get(spreadsheetId);
+    if (useCache && pending) {
+      return pending;
     }
 
+    const epoch = this.cacheEpochs.get(spreadsheetId) ?? 0;
+    const fetchPromise = this.backend
+      .getMetadata(spreadsheetId)
+      .then((metadata) => {
+        if ((this.cacheEpochs.get(spreadsheetId) ?? 0) === epoch) {
+          this.metadataCache.set(spreadsheetId, {
+            timestamp: Date.now(),
+            data: metadata,
+          });
+        }
+        return metadata;
+      });
+
+    this.inflightMetadata.set(spreadsheetId, fetchPromise);
+    fetchPromise
+      .finally(() => {
+        if (this.inflightMetadata.get(spreadsheetId) === fetchPromise) {
+          this.inflightMetadata.delete(spreadsheetId);
+        }
+      })
+      .catch(() => undefined);
+
     return fetchPromise;
   }
 
+  async getSheetProperties(
+    spreadsheetId: string,
+    sheetName: string
+  ): Promise<SheetProperties> {
+    const metadata = await this.getMetadata(spreadsheetId);
+    const sheet = metadata.sheets.find((s) => s.title === sheetName);
+    if (!sheet) {
+      throw new NotFoundException(`Sheet "${sheetName}" not found`);
+    }
+    return sheet;
+  }
+
+  // Header row plus each column's declared or inferred type. Inference reads
+  // the whole sheet through the same cache as readValues.
+  async getSheetColumns(
+    spreadsheetId: string,
+    sheetName: string
+  ): Promise<SheetColumn[]> {
+    await this.getSheetProperties(spreadsheetId, sheetName);
+    const values = await this.readValues(spreadsheetId, sheetName);
+    const headers = (values[0] ?? []) as string[];
+    const schema = this.getSchema(spreadsheetId, sheetName, values);
+
+    return headers.map((name, index) => ({
+      name,
+      index,
+      type: schema.types[name] ?? null,
+      declared: schema.declared.includes(name),
+    }));
+  }
+
+  // Reads a sheet in row ranges of `chunkRows` instead of one A:ZZZ call,
+  // bypassing the read cache. The header row and first chunk are fetched
+  // up front, so a missing sheet fails before anything is streamed, and the
+  // schema is inferred from that first chunk. Iteration stops at the grid's
+  // last row or when the consumer stops pulling.
+  async openRowStream(
+    spreadsheetId: string,
+    sheetName: string,
+    chunkRows: number = STREAM_CHUNK_ROWS
+  ): Promise<{
+    headers: string[];
+    schema: SheetSchema;
+    chunks: AsyncGenerator<RowDict[]>;
+  }> {
+    const sheet = await this.getSheetProperties(spreadsheetId, sheetName);
+    const [headerRow = []] = await this.backend.getValues(
+      spreadsheetId,
+      `${sheetName}!1:1`
+    );
+    const headers = headerRow.map((header) => String(header ?? ""));
+    if (headers.length === 0) {
+      throw new BadRequestException("Sheet appears empty or unreadable");
+    }
+
+    const endCol = this.colIdxToA1(headers.length - 1);
+    const fetchChunk = async (start: number) =>
+      (await this.backend.getValues(
+        spreadsheetId,
+        `${sheetName}!A${start}:${endCol}${start + chunkRows - 1}`
+      )) as string[][];
+
+    const first = await fetchChunk(2);
+    const schema = this.getSchema(spreadsheetId, sheetName, [
+      headers,
+      ...first,
+    ]);
+
+    return {
+      headers,
+      schema,
+      chunks: this.rowChunks(
+        headers,
+        schema,
+        first,
+        sheet.rowCount,
+        chunkRows,
+        fetchChunk
+      ),
+    };
+  }
+
+  private async *rowChunks(
+    headers: string[],
+    schema: SheetSchema,
+    first: string[][],
+    rowCount: number,
+    chunkRows: number,
+    fetchChunk: (start: number) => Promise<string[][]>
+  ): AsyncGenerator<RowDict[]> {
+    let values = first;
+    // 1-based sheet row of the chunk's first row; row 1 holds the headers.
+    let start = 2;
+    while (true) {
+      if (values.length > 0) {
+        yield this.normalizeRows(headers, values, schema);
+      }
+      start += chunkRows;
+      if (start > rowCount) return;
+      values = await fetchChunk(start);
+    }
+  }
+
+  cacheStats(): Promise<CacheStats> {
+    return this.readCache.stats();
+  }
+
   private async fetchSheetValues(
     spreadsheetId: string,
     range: string
   ): Promise<string[][]> {
     const normalizedRange = range.includes("!") ? range : `${range}!A:ZZZ`;
-    const sheets = await this.getSheetsApi();
-
-    try {
-      const response = await sheets.spreadsheets.values.get({
-        spreadsheetId,
-        range: normalizedRange,
-        valueRenderOption: "UNFORMATTED_VALUE",
-        dateTimeRenderOption: "FORMATTED_STRING",
-        majorDimension: "ROWS",
-        fields: "values",
-      });
+    const values = await this.backend.getValues(spreadsheetId, normalizedRange);
+    return values as string[][];
+  }
 
-      return (response.data.values || []) as string[][];
-    } catch (err: any) {
-      throw new Error(
-        err?.message || "Failed to read values from Google Sheet"
-      );
-    }
+  getSchema(
+    spreadsheetId: string,
+    sheetName: string,
+    values: string[][]
+  ): SheetSchema {
+    return this.schemaService.resolve(spreadsheetId, sheetName, values);
   }
 
-  normalizeRows(headers: string[] = [], rawRows: string[][]): RowDict[] {
+  // Without a schema, cells are returned exactly as the backend reported them;
+  // with one, each column is cast to its declared or inferred type.
+  normalizeRows(
+    headers: string[] = [],
+    rawRows: string[][],
+    schema?: SheetSchema
+  ): RowDict[] {
     if (!rawRows.length || headers.length === 0) return [];
 
     const headerCount = headers.length;
@@ -212,10 +561,14 @@ export class GoogleSheetsService {
       result.push(normalized);
     }
 
-    return result;
+    return schema ? this.schemaService.castRows(result, schema) : result;
   }
 
-  applyOptions(rows: RowDict[], options?: SheetQueryOptions): RowDict[] {
+  applyOptions(
+    rows: RowDict[],
+    options?: SheetQueryOptions,
+    types?: Record<string, ColumnType>
+  ): RowDict[] {
     if (!options) return rows;
 
     let processed = rows;
@@ -228,9 +581,97 @@ export class GoogleSheetsService {
       processed = this.applySearch(processed, options.search);
     }
 
+    if (this.isAggregateQuery(options)) {
+      processed = this.aggregatesService.aggregate(
+        processed,
+        options.groupBy,
+        options.aggregates,
+        types
+      );
+      processed = this.filtersService.applyFilters(processed, options.having);
+    }
+
+    if (options.orderBy) {
+      processed = this.applyOrderBy(processed, options.orderBy, types);
+    }
+
     return processed;
   }
 
+  private isAggregateQuery(options?: SheetQueryOptions): boolean {
+    return Boolean(options?.groupBy || options?.aggregates);
+  }
+
+  // Grouped reads return the group columns followed by one column per
+  // aggregate instead of the sheet's own header row.
+  resolveHeaders(headers: string[], options?: SheetQueryOptions): string[] {
+    if (!this.isAggregateQuery(options)) return headers;
+    return this.aggregatesService.outputHeaders(
+      options?.groupBy,
+      options?.aggregates
+    );
+  }
+
+  private parseOrderBy(
+    orderBy: NonNullable<SheetQueryOptions["orderBy"]>
+  ): Required<OrderByClause>[] {
+    const entries = Array.isArray(orderBy) ? orderBy : [orderBy];
+
+    return entries.map((entry) => {
+      // "amount desc" and { field: "amount", direction: "desc" } are equivalent
+      let clause: OrderByClause;
+      if (typeof entry === "string") {
+        const match = entry.trim().match(/^(.*?)(?:\s+(asc|desc))?$/i);
+        clause = {
+          field: match?.[1] ?? "",
+          direction: match?.[2]?.toLowerCase() as SortDirection | undefined,
+        };
+      } else {
+        clause = entry;
+      }
+
+      const field = clause?.field;
+      const direction = String(clause?.direction ?? "asc").toLowerCase();
+      if (!field || typeof field !== "string") {
+        throw new BadRequestException("'orderBy' entries require a field");
+      }
+      if (direction !== "asc" && direction !== "desc") {
+        throw new BadRequestException(
+          `Invalid sort direction "${clause.direction}" for "${field}"`
+        );
+      }
+      return { field, direction };
+    });
+  }
+
+  private applyOrderBy(
+    rows: RowDict[],
+    orderBy: NonNullable<SheetQueryOptions["orderBy"]>,
+    types: Record<string, ColumnType> = {}
+  ): RowDict[] {
+    const clauses = this.parseOrderBy(orderBy);
+    if (clauses.length === 0) return rows;
+
+    // Array.prototype.sort is stable, so ties keep their sheet order.
+    return [...rows].sort((a, b) => {
+      for (const { field, direction } of clauses) {
+        const result = this.filtersService.compareValues(
+          a[field],
+          b[field],
+          direction,
+          types[field]
+        );
+        if (result !== 0) return result;
+      }
+      return 0;
+    });
+  }
+
+  // JSON keeps ["a|b", "c"] and ["a", "b|c"] apart, which joining would not.
+  private compoundKey(row: RowDict, keys: string[]): string {
+    return JSON.stringify(keys.map((k) => String(row[k] ?? "")));
+  }
+
   private applyUnique(rows: RowDict[], uniqueBy: string | string[]): RowDict[] {
     if (!uniqueBy) return rows;
 
@@ -239,7 +680,7 @@ export class GoogleSheetsService {
     const result: RowDict[] = [];
 
     for (const row of rows) {
-      const compoundKey = keys.map((k) => String(row[k] ?? "")).join("|");
+      const compoundKey = this.compoundKey(row, keys);
       if (!seen.has(compoundKey)) {
         seen.add(compoundKey);
         result.push(row);
@@ -293,29 +734,69 @@ export class GoogleSheetsService {
     return results.map((entry) => entry.item);
   }
 
-  // applyPagination(
-  //   rows: RowDict[],
-  //   page?: number,
-  //   limit?: number
-  // ): [
-  //   RowDict[],
-  //   { total: number; page: number; limit: number; hasNextPage: boolean }
-  // ] {
-  //   const pageNum = Math.max(1, parseInt(String(page)) || 1);
-  //   const limitNum = Math.max(0, parseInt(String(limit)) || 50);
+  // Offset from cursor, offset or page (in that order of precedence) and the
+  // page size; a limit of 0 means "no limit".
+  resolveWindow(options?: SheetQueryOptions): {
+    limit: number;
+    offset: number;
+  } {
+    const limit = Math.max(0, parseInt(String(options?.limit)) || 0);
+
+    let offset = 0;
+    if (options?.cursor) {
+      offset = this.decodeCursor(options.cursor);
+    } else if (options?.offset !== undefined) {
+      offset = Math.max(0, parseInt(String(options.offset)) || 0);
+    } else if (options?.page !== undefined && limit > 0) {
+      const pageNum = Math.max(1, parseInt(String(options.page)) || 1);
+      offset = (pageNum - 1) * limit;
+    }
 
-  //   const total = rows.length;
-  //   const start = (pageNum - 1) * limitNum;
-  //   const end = limitNum > 0 ? start + limitNum : total;
+    return { limit, offset };
+  }
 
-  //   const paginatedRows = rows.slice(start, end);
-  //   const hasNextPage = end < total;
+  // Offset/limit paging. `page` is 1-based and derived from offset when a
+  // cursor or explicit offset is used; a limit of 0 returns every row.
+  applyPagination(
+    rows: RowDict[],
+    options?: SheetQueryOptions
+  ): [RowDict[], PaginationMeta] {
+    const { limit: limitNum, offset } = this.resolveWindow(options);
+
+    const total = rows.length;
+    const end = limitNum > 0 ? offset + limitNum : total;
+    const paginatedRows = rows.slice(offset, end);
+    const hasNextPage = end < total;
+
+    return [
+      paginatedRows,
+      {
+        total,
+        page: limitNum > 0 ? Math.floor(offset / limitNum) + 1 : 1,
+        limit: limitNum,
+        offset,
+        hasNextPage,
+        nextCursor: hasNextPage ? this.encodeCursor(end) : null,
+      },
+    ];
+  }
+
+  private encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ o: offset })).toString("base64url");
+  }
 
-  //   return [
-  //     paginatedRows,
-  //     { total, page: pageNum, limit: limitNum, hasNextPage },
-  //   ];
-  // }
+  private decodeCursor(cursor: string): number {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf-8")
+      );
+      const offset = decoded?.o;
+      if (Number.isInteger(offset) && offset >= 0) {
+        return offset;
+      }
+    } catch {}
+    throw new BadRequestException("Invalid pagination cursor");
+  }
 
   private colIdxToA1(n: number): string {
     let result = "";
@@ -328,12 +809,82 @@ export class GoogleSheetsService {
     return result;
   }
 
+  // Strong validator over the sheet's raw values, so any cell edit (through
+  // this API or the Google UI) yields a new tag.
+  computeEtag(values: string[][]): string {
+    const digest = createHash("sha1")
+      .update(JSON.stringify(values))
+      .digest("base64url");
+    return `"${digest}"`;
+  }
+
+  // Last-Modified for reads: the time this process first saw the tab with
+  // its current ETag, to the second. It resets on restart, so the ETag stays
+  // the stronger validator.
+  lastModified(spreadsheetId: string, sheet: string, etag: string): Date {
+    const key = `${spreadsheetId}:${sheet}`;
+    const seen = this.contentSeen.get(key);
+    if (seen?.etag === etag) return new Date(seen.at);
+    const at = Math.floor(Date.now() / 1000) * 1000;
+    this.contentSeen.set(key, { etag, at });
+    return new Date(at);
+  }
+
+  private assertEtag(values: string[][], ifMatch?: string | null): void {
+    if (!ifMatch) return;
+
+    const current = this.computeEtag(values);
+    // Tags of CSV/NDJSON/XLSX reads name the same sheet contents.
+    const candidates = ifMatch.split(",").map((tag) =>
+      tag
+        .trim()
+        .replace(/^W\//, "")
+        .replace(/-(?:csv|ndjson|xlsx)"$/, '"')
+    );
+    if (!candidates.includes("*") && !candidates.includes(current)) {
+      throw new PreconditionFailedException(
+        "Sheet has changed since it was read (ETag mismatch)"
+      );
+    }
+  }
+
+  // Writes address rows by absolute position, so re-read just before writing
+  // and refuse if the header or any target row moved or stopped matching.
+  private async assertRowsUnchanged(
+    spreadsheetId: string,
+    sheetName: string,
+    values: string[][],
+    targetIndices: number[],
+    predicate: (row: RowDict) => boolean
+  ): Promise<void> {
+    const fresh = await this.fetchSheetValues(spreadsheetId, sheetName);
+    const same = (a: unknown, b: unknown) =>
+      JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+
+    const headers = (fresh[0] ?? []) as string[];
+    const stale =
+      !same(values[0], fresh[0]) ||
+      targetIndices.some((index) => {
+        const freshRow = fresh[index + 1];
+        if (!freshRow || !same(values[index + 1], freshRow)) return true;
+        const [row] = this.normalizeRows(headers, [freshRow]);
+        return !row || !predicate(row);
+      });
+
+    if (stale) {
+      throw new PreconditionFailedException(
+        "Target rows changed before the write could be applied; retry the request"
+      );
+    }
+  }
+
   async updateRows(
     spreadsheetId: string,
     sheetName: string,
     where: any,
     data: RowDict,
-    updateAll: boolean = false
+    updateAll: boolean = false,
+    writeOptions: WriteRequestOptions = {}
   ): Promise<{ updated: number; appended: number }> {
     // Read current values and headers
     const values = await this.readValues(spreadsheetId, sheetName, false);
@@ -342,19 +893,21 @@ export class GoogleSheetsService {
       throw new Error("Sheet appears empty or unreadable");
     }
 
+    this.assertEtag(values, writeOptions.ifMatch);
+
     const headers = (values[0] ?? []) as string[];
     const rows = this.normalizeRows(headers, values.slice(1));
+    const schema = this.getSchema(spreadsheetId, sheetName, values);
 
     // Find matching rows
     const predicate = where
-      ? this.filtersService.buildPredicate(where)
+      ? this.filtersService.buildPredicate(where, schema.types)
       : () => true;
     const matchingIndices: number[] = rows
       .map((row, index) => ({ row, index }))
       .filter(({ row }) => predicate(row))
       .map(({ index }) => index as number);
 
-    const sheets = await this.getSheetsApi();
     let updated = 0;
     // Note: updateRows no longer auto-appends. Appends must be done explicitly
 
@@ -363,8 +916,23 @@ export class GoogleSheetsService {
         ? matchingIndices
         : matchingIndices.slice(0, 1);
 
+      const record = this.schemaService.validateWrite(
+        spreadsheetId,
+        sheetName,
+        headers,
+        rows,
+        data,
+        {
+          ...writeOptions,
+          partial: true,
+          excludeRows: new Set(targetIndices),
+          targetCount: targetIndices.length,
+        }
+      );
+
       // Prepare batch updates
-      const batchRequests: any[] = [];
+      const batchRequests: ValueRange[] = [];
+      const changedIndices: number[] = [];
 
       for (const ri of targetIndices) {
         const rowIndex: number = ri as number;
@@ -378,7 +946,7 @@ export class GoogleSheetsService {
         let hasChanges = false;
 
         // Apply updates
-        for (const [key, value] of Object.entries(data)) {
+        for (const [key, value] of Object.entries(record)) {
           const headerIndex = headers.indexOf(key);
           if (headerIndex >= 0) {
             if (String(updatedRow[headerIndex]) !== String(value)) {
@@ -397,19 +965,33 @@ export class GoogleSheetsService {
             range,
             values: [updatedRow],
           });
+          changedIndices.push(rowIndex);
         }
       }
 
       // Execute batch update
       if (batchRequests.length > 0) {
-        await sheets.spreadsheets.values.batchUpdate({
+        await this.assertRowsUnchanged(
           spreadsheetId,
-          requestBody: {
-            valueInputOption: "RAW",
-            data: batchRequests,
-          },
-        });
+          sheetName,
+          values,
+          changedIndices,
+          predicate
+        );
+        await this.writeThrough(spreadsheetId, sheetName, () =>
+          this.backend.batchUpdateValues(spreadsheetId, batchRequests)
+        );
         updated = batchRequests.length;
+        this.emitChanges(
+          changedIndices.map((rowIndex, i) => ({
+            type: "row.updated",
+            spreadsheetId,
+            sheet: sheetName,
+            rowNumber: rowIndex + 2,
+            row: this.toRowDict(headers, batchRequests[i]!.values[0]!),
+            previous: rows[rowIndex],
+          }))
+        );
       }
     }
 
@@ -419,7 +1001,8 @@ export class GoogleSheetsService {
   async appendRow(
     spreadsheetId: string,
     sheetName: string,
-    data: RowDict
+    data: RowDict,
+    writeOptions: WriteRequestOptions = {}
   ): Promise<{ appended: number }> {
     const values = await this.readValues(spreadsheetId, sheetName, false);
 
@@ -427,25 +1010,777 @@ export class GoogleSheetsService {
       throw new Error("Sheet appears empty or unreadable");
     }
 
+    this.assertEtag(values, writeOptions.ifMatch);
+
     const headers = (values[0] ?? []) as string[];
+    const record = this.schemaService.validateWrite(
+      spreadsheetId,
+      sheetName,
+      headers,
+      this.normalizeRows(headers, values.slice(1)),
+      data,
+      writeOptions
+    );
     const newRow = headers.map((h) =>
-      data[h] !== undefined && data[h] !== null ? data[h] : ""
+      record[h] !== undefined && record[h] !== null ? record[h] : ""
     );
     const lastRow = values.length + 1;
     const endCol = this.colIdxToA1(headers.length - 1);
     const range = `${sheetName}!A${lastRow}:${endCol}${lastRow}`;
 
-    const sheets = await this.getSheetsApi();
-    await sheets.spreadsheets.values.append({
-      spreadsheetId,
-      range,
-      valueInputOption: "RAW",
-      insertDataOption: "INSERT_ROWS",
-      requestBody: {
-        values: [newRow],
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.appendValues(spreadsheetId, range, [newRow])
+    );
+    this.emitChanges([
+      {
+        type: "row.created",
+        spreadsheetId,
+        sheet: sheetName,
+        rowNumber: lastRow,
+        row: this.toRowDict(headers, newRow),
       },
-    });
+    ]);
 
     return { appended: 1 };
   }
+
+  // Validates every record against the same snapshot (plus the records
+  // accepted before it, for uniqueness) and writes all accepted rows with a
+  // single append.
+  async appendRows(
+    spreadsheetId: string,
+    sheetName: string,
+    records: RowDict[],
+    mode: BulkMode = "atomic",
+    writeOptions: WriteRequestOptions = {},
+    snapshot?: SheetSnapshot
+  ): Promise<{ appended: number; results: BulkRowResult[] }> {
+    const { appended, results } = await this.writeNewRows(
+      spreadsheetId,
+      sheetName,
+      records,
+      mode,
+      writeOptions,
+      false,
+      snapshot
+    );
+    return { appended, results };
+  }
+
+  // Replaces every data row with `records`, validated as if the sheet were
+  // empty. The old rows are deleted only when at least one record is valid,
+  // so a batch that fails validation leaves the sheet as it was.
+  async replaceRows(
+    spreadsheetId: string,
+    sheetName: string,
+    records: RowDict[],
+    mode: BulkMode = "atomic",
+    writeOptions: WriteRequestOptions = {},
+    snapshot?: SheetSnapshot
+  ): Promise<{ removed: number; appended: number; results: BulkRowResult[] }> {
+    return this.writeNewRows(
+      spreadsheetId,
+      sheetName,
+      records,
+      mode,
+      writeOptions,
+      true,
+      snapshot
+    );
+  }
+
+  private async snapshotValues(
+    spreadsheetId: string,
+    sheetName: string,
+    snapshot?: SheetSnapshot
+  ): Promise<any[][]> {
+    if (snapshot?.values) return snapshot.values;
+    const values = await this.readValues(spreadsheetId, sheetName, false);
+    if (snapshot) snapshot.values = values;
+    return values;
+  }
+
+  private async writeNewRows(
+    spreadsheetId: string,
+    sheetName: string,
+    records: RowDict[],
+    mode: BulkMode,
+    writeOptions: WriteRequestOptions,
+    replace: boolean,
+    snapshot?: SheetSnapshot
+  ): Promise<{ removed: number; appended: number; results: BulkRowResult[] }> {
+    const values = await this.snapshotValues(
+      spreadsheetId,
+      sheetName,
+      snapshot
+    );
+
+    if (!values.length) {
+      throw new Error("Sheet appears empty or unreadable");
+    }
+
+    this.assertEtag(values, writeOptions.ifMatch);
+
+    const headers = (values[0] ?? []) as string[];
+    const knownRows = replace
+      ? []
+      : this.normalizeRows(headers, values.slice(1));
+    const results: BulkRowResult[] = [];
+    const newRows: any[][] = [];
+
+    records.forEach((data, index) => {
+      try {
+        const record = this.schemaService.validateWrite(
+          spreadsheetId,
+          sheetName,
+          headers,
+          knownRows,
+          data,
+          writeOptions
+        );
+        knownRows.push(record);
+        newRows.push(
+          headers.map((h) =>
+            record[h] !== undefined && record[h] !== null ? record[h] : ""
+          )
+        );
+        results.push({ index, status: "appended" });
+      } catch (error: any) {
+        if (!error?.errors) throw error;
+        results.push({ index, status: "invalid", errors: error.errors });
+      }
+    });
+
+    const invalid = results.filter((r) => r.status === "invalid").length;
+    if (mode === "atomic" && invalid > 0) {
+      throw new ValidationException(
+        results.flatMap((result) =>
+          (result.errors ?? []).map((error) => ({
+            row: result.index,
+            ...error,
+          }))
+        ),
+        `${invalid} of ${records.length} rows failed validation; nothing was written`
+      );
+    }
+
+    let removed = 0;
+    if (newRows.length > 0) {
+      if (replace) {
+        removed = await this.clearRows(spreadsheetId, sheetName);
+      }
+      const lastRow = replace ? 2 : values.length + 1;
+      const endCol = this.colIdxToA1(headers.length - 1);
+      const range = `${sheetName}!A${lastRow}:${endCol}${lastRow}`;
+      await this.writeThrough(spreadsheetId, sheetName, () =>
+        this.backend.appendValues(spreadsheetId, range, newRows)
+      );
+      this.emitChanges(
+        newRows.map((row, i) => ({
+          type: "row.created",
+          spreadsheetId,
+          sheet: sheetName,
+          rowNumber: lastRow + i,
+          row: this.toRowDict(headers, row),
+        }))
+      );
+      if (snapshot) {
+        snapshot.values = replace
+          ? [headers, ...newRows]
+          : [...values, ...newRows];
+      }
+    }
+
+    return { removed, appended: newRows.length, results };
+  }
+
+  // Matches records to existing rows by their compound key (first match wins),
+  // then writes every changed row in one batchUpdate and every new record in
+  // one append. Repeated keys within the request merge into the same row.
+  async upsertRows(
+    spreadsheetId: string,
+    sheetName: string,
+    keys: string[],
+    records: RowDict[],
+    mode: BulkMode = "atomic",
+    writeOptions: WriteRequestOptions = {},
+    snapshot?: SheetSnapshot
+  ): Promise<{
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    results: UpsertRowResult[];
+  }> {
+    const values = await this.snapshotValues(
+      spreadsheetId,
+      sheetName,
+      snapshot
+    );
+
+    if (!values.length) {
+      throw new Error("Sheet appears empty or unreadable");
+    }
+
+    this.assertEtag(values, writeOptions.ifMatch);
+
+    const headers = (values[0] ?? []) as string[];
+    const missing = keys.filter((k) => !headers.includes(k));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Key columns not found in ${sheetName}: ${missing.join(", ")}`
+      );
+    }
+
+    const rows = this.normalizeRows(headers, values.slice(1));
+    const rowByKey = new Map<string, number>();
+    rows.forEach((row, index) => {
+      const key = this.compoundKey(row, keys);
+      if (!rowByKey.has(key)) rowByKey.set(key, index);
+    });
+
+    const changedRows = new Map<number, any[]>();
+    const inserts: RowDict[] = [];
+    const insertByKey = new Map<string, number>();
+    const results: UpsertRowResult[] = [];
+
+    records.forEach((data, index) => {
+      const blankKeys = keys.filter((k) =>
+        this.filtersService.isNullish(data[k])
+      );
+      if (blankKeys.length > 0) {
+        results.push({
+          index,
+          status: "invalid",
+          errors: blankKeys.map((field) => ({
+            field,
+            rule: "required",
+            message: `Key column "${field}" is required`,
+          })),
+        });
+        return;
+      }
+
+      const key = this.compoundKey(data, keys);
+      const rowIndex = rowByKey.get(key);
+
+      try {
+        if (rowIndex !== undefined) {
+          const record = this.schemaService.validateWrite(
+            spreadsheetId,
+            sheetName,
+            headers,
+            rows,
+            data,
+            { ...writeOptions, partial: true, excludeRows: new Set([rowIndex]) }
+          );
+          const existingRow = rows[rowIndex]!;
+          const current =
+            changedRows.get(rowIndex) ??
+            headers.map((h) =>
+              existingRow[h] !== undefined && existingRow[h] !== null
+                ? existingRow[h]
+                : ""
+            );
+
+          let hasChanges = false;
+          for (const [column, value] of Object.entries(record)) {
+            const headerIndex = headers.indexOf(column);
+            if (
+              headerIndex >= 0 &&
+              String(current[headerIndex]) !== String(value)
+            ) {
+              current[headerIndex] = value;
+              hasChanges = true;
+            }
+          }
+
+          if (hasChanges) changedRows.set(rowIndex, current);
+          results.push({ index, status: hasChanges ? "updated" : "unchanged" });
+          return;
+        }
+
+        const pending = insertByKey.get(key);
+        const merged =
+          pending !== undefined ? { ...inserts[pending], ...data } : data;
+        const record = this.schemaService.validateWrite(
+          spreadsheetId,
+          sheetName,
+          headers,
+          [...rows, ...inserts.filter((_, i) => i !== pending)],
+          merged,
+          writeOptions
+        );
+
+        if (pending !== undefined) {
+          inserts[pending] = record;
+        } else {
+          insertByKey.set(key, inserts.length);
+          inserts.push(record);
+        }
+        results.push({ index, status: "inserted" });
+      } catch (error: any) {
+        if (!error?.errors) throw error;
+        results.push({ index, status: "invalid", errors: error.errors });
+      }
+    });
+
+    const invalid = results.filter((r) => r.status === "invalid").length;
+    if (mode === "atomic" && invalid > 0) {
+      throw new ValidationException(
+        results.flatMap((result) =>
+          (result.errors ?? []).map((error) => ({
+            row: result.index,
+            ...error,
+          }))
+        ),
+        `${invalid} of ${records.length} records failed validation; nothing was written`
+      );
+    }
+
+    const endCol = this.colIdxToA1(headers.length - 1);
+
+    if (changedRows.size > 0) {
+      const batchRequests: ValueRange[] = [];
+      for (const [rowIndex, updatedRow] of changedRows) {
+        const sheetRowNum = rowIndex + 2; // +1 for header, +1 for 1-based
+        batchRequests.push({
+          range: `${sheetName}!A${sheetRowNum}:${endCol}${sheetRowNum}`,
+          values: [updatedRow],
+        });
+      }
+      await this.writeThrough(spreadsheetId, sheetName, () =>
+        this.backend.batchUpdateValues(spreadsheetId, batchRequests)
+      );
+      this.emitChanges(
+        [...changedRows].map(([rowIndex, updatedRow]) => ({
+          type: "row.updated",
+          spreadsheetId,
+          sheet: sheetName,
+          rowNumber: rowIndex + 2,
+          row: this.toRowDict(headers, updatedRow),
+          previous: rows[rowIndex],
+        }))
+      );
+      if (snapshot) {
+        const next = [...values];
+        for (const [rowIndex, updatedRow] of changedRows) {
+          next[rowIndex + 1] = updatedRow;
+        }
+        snapshot.values = next;
+      }
+    }
+
+    if (inserts.length > 0) {
+      const lastRow = values.length + 1;
+      const newRows = inserts.map((record) =>
+        headers.map((h) =>
+          record[h] !== undefined && record[h] !== null ? record[h] : ""
+        )
+      );
+      await this.writeThrough(spreadsheetId, sheetName, () =>
+        this.backend.appendValues(
+          spreadsheetId,
+          `${sheetName}!A${lastRow}:${endCol}${lastRow}`,
+          newRows
+        )
+      );
+      this.emitChanges(
+        newRows.map((row, i) => ({
+          type: "row.created",
+          spreadsheetId,
+          sheet: sheetName,
+          rowNumber: lastRow + i,
+          row: this.toRowDict(headers, row),
+        }))
+      );
+      if (snapshot) snapshot.values = [...snapshot.values!, ...newRows];
+    }
+
+    const count = (status: UpsertRowResult["status"]) =>
+      results.filter((r) => r.status === status).length;
+
+    return {
+      inserted: count("inserted"),
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      results,
+    };
+  }
+
+  async getSheetId(spreadsheetId: string, sheetName: string): Promise<number> {
+    const sheet = await this.getSheetProperties(spreadsheetId, sheetName);
+    return sheet.sheetId;
+  }
+
+  async deleteRows(
+    spreadsheetId: string,
+    sheetName: string,
+    where: any,
+    deleteAll: boolean = false,
+    writeOptions: Pick<WriteRequestOptions, "ifMatch"> = {}
+  ): Promise<{ deleted: number }> {
+    const values = await this.readValues(spreadsheetId, sheetName, false);
+
+    if (!values.length) {
+      throw new Error("Sheet appears empty or unreadable");
+    }
+
+    this.assertEtag(values, writeOptions.ifMatch);
+
+    const headers = (values[0] ?? []) as string[];
+    const rows = this.normalizeRows(headers, values.slice(1));
+    const schema = this.getSchema(spreadsheetId, sheetName, values);
+
+    const predicate = this.filtersService.buildPredicate(where, schema.types);
+    const matchingIndices: number[] = rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => predicate(row))
+      .map(({ index }) => index);
+
+    if (matchingIndices.length === 0) {
+      return { deleted: 0 };
+    }
+
+    const targetIndices = deleteAll
+      ? matchingIndices
+      : matchingIndices.slice(0, 1);
+    const sheetId = await this.getSheetId(spreadsheetId, sheetName);
+    await this.assertRowsUnchanged(
+      spreadsheetId,
+      sheetName,
+      values,
+      targetIndices,
+      predicate
+    );
+
+    // Walk bottom-up, merging adjacent rows into one range, so earlier
+    // deletions in the batch never shift the indices of later ones.
+    const requests: SpreadsheetRequest[] = [];
+    let end = -1;
+    for (let i = targetIndices.length - 1; i >= 0; i--) {
+      const rowIndex = targetIndices[i]! + 1; // +1 for header (0-based grid)
+      if (end < 0) end = rowIndex + 1;
+
+      const next = targetIndices[i - 1];
+      if (next !== undefined && next + 1 === rowIndex - 1) continue;
+
+      requests.push({
+        deleteDimension: {
+          range: {
+            sheetId,
+            dimension: "ROWS",
+            startIndex: rowIndex,
+            endIndex: end,
+          },
+        },
+      });
+      end = -1;
+    }
+
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.batchUpdate(spreadsheetId, requests)
+    );
+    this.emitChanges(
+      targetIndices.map((rowIndex) => ({
+        type: "row.deleted",
+        spreadsheetId,
+        sheet: sheetName,
+        rowNumber: rowIndex + 2,
+        previous: rows[rowIndex],
+      }))
+    );
+
+    return { deleted: targetIndices.length };
+  }
+
+  // Deletes every data row, keeping the header row.
+  async clearRows(spreadsheetId: string, sheetName: string): Promise<number> {
+    const values = await this.readValues(spreadsheetId, sheetName, false);
+    if (values.length <= 1) return 0;
+
+    const sheetId = await this.getSheetId(spreadsheetId, sheetName);
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.batchUpdate(spreadsheetId, [
+        {
+          deleteDimension: {
+            range: {
+              sheetId,
+              dimension: "ROWS",
+              startIndex: 1,
+              endIndex: values.length,
+            },
+          },
+        },
+      ])
+    );
+    const headers = (values[0] ?? []) as string[];
+    this.emitChanges(
+      this.normalizeRows(headers, values.slice(1)).map((row, index) => ({
+        type: "row.deleted",
+        spreadsheetId,
+        sheet: sheetName,
+        rowNumber: index + 2,
+        previous: row,
+      }))
+    );
+    return values.length - 1;
+  }
+
+  // Row 0 holds the headers; a cell payload for updateCells.
+  private headerCell(
+    sheetId: number,
+    columnIndex: number,
+    names: string[]
+  ): SpreadsheetRequest {
+    return {
+      updateCells: {
+        start: { sheetId, rowIndex: 0, columnIndex },
+        rows: [
+          {
+            values: names.map((name) => ({
+              userEnteredValue: { stringValue: name },
+            })),
+          },
+        ],
+        fields: "userEnteredValue",
+      },
+    };
+  }
+
+  private async readHeaders(
+    spreadsheetId: string,
+    sheetName: string
+  ): Promise<[SheetProperties, string[]]> {
+    const sheet = await this.getSheetProperties(spreadsheetId, sheetName);
+    const values = await this.readValues(spreadsheetId, sheetName, false);
+    return [sheet, ((values[0] ?? []) as any[]).map((h) => String(h))];
+  }
+
+  private columnIndex(headers: string[], column: string): number {
+    const index = headers.indexOf(column);
+    if (index === -1) {
+      throw new NotFoundException(`Column "${column}" not found`);
+    }
+    return index;
+  }
+
+  async createSheet(
+    spreadsheetId: string,
+    title: string,
+    options: { headers?: string[]; index?: number; frozenRowCount?: number }
+  ): Promise<SheetProperties> {
+    const metadata = await this.getMetadata(spreadsheetId, false);
+    if (metadata.sheets.some((sheet) => sheet.title === title)) {
+      throw new ConflictException(`Sheet "${title}" already exists`);
+    }
+
+    // Picking the sheetId up front lets the header row go in the same batch.
+    const taken = new Set(metadata.sheets.map((sheet) => sheet.sheetId));
+    let sheetId: number;
+    do {
+      sheetId = Math.floor(Math.random() * 2 ** 31);
+    } while (taken.has(sheetId));
+
+    const requests: SpreadsheetRequest[] = [
+      {
+        addSheet: {
+          properties: {
+            sheetId,
+            title,
+            index: options.index,
+            gridProperties: { frozenRowCount: options.frozenRowCount ?? 0 },
+          },
+        },
+      },
+    ];
+    if (options.headers?.length) {
+      requests.push(this.headerCell(sheetId, 0, options.headers));
+    }
+
+    await this.writeThrough(spreadsheetId, title, () =>
+      this.backend.batchUpdate(spreadsheetId, requests)
+    );
+    return this.getSheetProperties(spreadsheetId, title);
+  }
+
+  async updateSheetProperties(
+    spreadsheetId: string,
+    sheetName: string,
+    changes: { title?: string; index?: number; frozenRowCount?: number }
+  ): Promise<SheetProperties> {
+    const sheet = await this.getSheetProperties(spreadsheetId, sheetName);
+    const fields: string[] = [];
+    if (changes.title !== undefined && changes.title !== sheetName) {
+      const metadata = await this.getMetadata(spreadsheetId);
+      if (metadata.sheets.some((s) => s.title === changes.title)) {
+        throw new ConflictException(`Sheet "${changes.title}" already exists`);
+      }
+      fields.push("title");
+    }
+    if (changes.index !== undefined) fields.push("index");
+    if (changes.frozenRowCount !== undefined) {
+      fields.push("gridProperties.frozenRowCount");
+    }
+
+    if (fields.length > 0) {
+      await this.writeThrough(spreadsheetId, sheetName, () =>
+        this.backend.batchUpdate(spreadsheetId, [
+          {
+            updateSheetProperties: {
+              properties: {
+                sheetId: sheet.sheetId,
+                title: changes.title,
+                index: changes.index,
+                gridProperties: { frozenRowCount: changes.frozenRowCount },
+              },
+              fields: fields.join(","),
+            },
+          },
+        ])
+      );
+    }
+
+    return this.getSheetProperties(
+      spreadsheetId,
+      fields.includes("title") ? changes.title! : sheetName
+    );
+  }
+
+  async deleteSheet(spreadsheetId: string, sheetName: string): Promise<void> {
+    const sheet = await this.getSheetProperties(spreadsheetId, sheetName);
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.batchUpdate(spreadsheetId, [
+        { deleteSheet: { sheetId: sheet.sheetId } },
+      ])
+    );
+  }
+
+  // Inserts an empty column at `position` (default: after the last header)
+  // and writes its header cell. Existing columns to the right shift over.
+  async addColumn(
+    spreadsheetId: string,
+    sheetName: string,
+    name: string,
+    position?: number
+  ): Promise<string[]> {
+    const [sheet, headers] = await this.readHeaders(spreadsheetId, sheetName);
+    if (headers.includes(name)) {
+      throw new ConflictException(`Column "${name}" already exists`);
+    }
+
+    const index = position ?? headers.length;
+    if (index > headers.length) {
+      throw new BadRequestException(
+        `'position' must be between 0 and ${headers.length}`
+      );
+    }
+
+    const insert: SpreadsheetRequest =
+      index >= sheet.columnCount
+        ? {
+            appendDimension: {
+              sheetId: sheet.sheetId,
+              dimension: "COLUMNS",
+              length: index - sheet.columnCount + 1,
+            },
+          }
+        : {
+            insertDimension: {
+              range: {
+                sheetId: sheet.sheetId,
+                dimension: "COLUMNS",
+                startIndex: index,
+                endIndex: index + 1,
+              },
+              inheritFromBefore: index > 0,
+            },
+          };
+
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.batchUpdate(spreadsheetId, [
+        insert,
+        this.headerCell(sheet.sheetId, index, [name]),
+      ])
+    );
+
+    return [...headers.slice(0, index), name, ...headers.slice(index)];
+  }
+
+  // Renaming rewrites only the header cell, so data rows stay aligned.
+  // Moving relocates the whole column to its new zero-based position.
+  async updateColumn(
+    spreadsheetId: string,
+    sheetName: string,
+    column: string,
+    changes: { name?: string; position?: number }
+  ): Promise<string[]> {
+    const [sheet, headers] = await this.readHeaders(spreadsheetId, sheetName);
+    const from = this.columnIndex(headers, column);
+    const requests: SpreadsheetRequest[] = [];
+    const result = [...headers];
+
+    if (changes.name !== undefined && changes.name !== column) {
+      if (headers.includes(changes.name)) {
+        throw new ConflictException(`Column "${changes.name}" already exists`);
+      }
+      requests.push(this.headerCell(sheet.sheetId, from, [changes.name]));
+      result[from] = changes.name;
+    }
+
+    const to = changes.position;
+    if (to !== undefined && to !== from) {
+      if (to >= headers.length) {
+        throw new BadRequestException(
+          `'position' must be between 0 and ${headers.length - 1}`
+        );
+      }
+      requests.push({
+        moveDimension: {
+          source: {
+            sheetId: sheet.sheetId,
+            dimension: "COLUMNS",
+            startIndex: from,
+            endIndex: from + 1,
+          },
+          // Measured before the source column is removed.
+          destinationIndex: to > from ? to + 1 : to,
+        },
+      });
+      const [moved] = result.splice(from, 1);
+      result.splice(to, 0, moved!);
+    }
+
+    if (requests.length > 0) {
+      await this.writeThrough(spreadsheetId, sheetName, () =>
+        this.backend.batchUpdate(spreadsheetId, requests)
+      );
+    }
+    return result;
+  }
+
+  async deleteColumn(
+    spreadsheetId: string,
+    sheetName: string,
+    column: string
+  ): Promise<string[]> {
+    const [sheet, headers] = await this.readHeaders(spreadsheetId, sheetName);
+    const index = this.columnIndex(headers, column);
+
+    await this.writeThrough(spreadsheetId, sheetName, () =>
+      this.backend.batchUpdate(spreadsheetId, [
+        {
+          deleteDimension: {
+            range: {
+              sheetId: sheet.sheetId,
+              dimension: "COLUMNS",
+              startIndex: index,
+              endIndex: index + 1,
+            },
+          },
+        },
+      ])
+    );
+
+    return headers.filter((_, i) => i !== index);
+  }
 }
@@ -0,0 +1,155 @@
+import { BadRequestException } from "../common/exceptions";
+import { escapeExportCell } from "../utils/csv";
+import { CORE_HEADERS, fileResponse } from "../utils/index";
+import { formatFilename, type OutputFormat } from "./formats";
+import type { SheetQueryOptions } from "./service";
+
+type RowDict = Record<string, any>;
+
+export type StreamFormat = Exclude<OutputFormat, "xlsx">;
+
+// Options that need every row before the first one can be sent.
+const WHOLE_SHEET_OPTIONS: (keyof SheetQueryOptions)[] = [
+  "uniqueBy",
+  "search",
+  "groupBy",
+  "aggregates",
+  "having",
+  "orderBy",
+];
+
+export function validateStreamRequest(
+  format: OutputFormat,
+  options?: SheetQueryOptions
+): StreamFormat {
+  if (format === "xlsx") {
+    throw new BadRequestException("xlsx output cannot be streamed");
+  }
+  const unsupported = WHOLE_SHEET_OPTIONS.filter(
+    (option) => options?.[option] !== undefined
+  );
+  if (unsupported.length > 0) {
+    throw new BadRequestException(
+      `Streamed reads do not support: ${unsupported.join(", ")}`
+    );
+  }
+  return format;
+}
+
+// Applies the predicate chunk by chunk and stops pulling chunks (and so
+// fetching ranges) once `limit` rows have been produced.
+export async function* matchingRows(
+  chunks: AsyncGenerator<RowDict[]>,
+  predicate: (row: RowDict) => boolean,
+  window: { limit: number; offset: number }
+): AsyncGenerator<RowDict> {
+  let skipped = 0;
+  let emitted = 0;
+
+  for await (const chunk of chunks) {
+    for (const row of chunk) {
+      if (!predicate(row)) continue;
+      if (skipped < window.offset) {
+        skipped++;
+        continue;
+      }
+      yield row;
+      if (window.limit > 0 && ++emitted >= window.limit) return;
+    }
+  }
+}
+
+const MEDIA_TYPES: Record<StreamFormat, string> = {
+  ndjson: "application/x-ndjson",
+  json: "application/json",
+  csv: "text/csv; charset=utf-8",
+};
+
+// Streams rows as they are produced. The stream is pull-based, so rows are
+// only generated as fast as the client reads them. A failure after the first
+// byte can't change the status code any more; it is reported in-band instead
+// (an `{"error": ...}` line for NDJSON, an `error` key for JSON) and the
+// stream ends. CSV and NDJSON are downloads named like unstreamed ones.
+export function streamRowsResponse(
+  format: StreamFormat,
+  sheetName: string,
+  headers: string[],
+  rows: AsyncGenerator<RowDict>
+): Response {
+  const encoder = new TextEncoder();
+  let started = false;
+  let first = true;
+
+  const prefix = () => {
+    if (format === "json") {
+      return `{"sheet":${JSON.stringify(sheetName)},"headers":${JSON.stringify(
+        headers
+      )},"rows":[`;
+    }
+    if (format === "csv") {
+      return headers.map(escapeExportCell).join(",") + "\r\n";
+    }
+    return "";
+  };
+
+  const serialize = (row: RowDict) => {
+    if (format === "json") {
+      const text = (first ? "" : ",") + JSON.stringify(row);
+      first = false;
+      return text;
+    }
+    if (format === "csv") {
+      return headers.map((h) => escapeExportCell(row[h])).join(",") + "\r\n";
+    }
+    return JSON.stringify(row) + "\n";
+  };
+
+  const trailer = (error?: any) => {
+    const message = error ? error?.message ?? String(error) : null;
+    if (format === "json") {
+      return message ? `],"error":${JSON.stringify(message)}}` : "]}";
+    }
+    if (format === "ndjson" && message) {
+      return JSON.stringify({ error: message }) + "\n";
+    }
+    return "";
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let text = "";
+      if (!started) {
+        started = true;
+        text += prefix();
+      }
+
+      try {
+        const { value, done } = await rows.next();
+        if (done) {
+          controller.enqueue(encoder.encode(text + trailer()));
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(text + serialize(value)));
+      } catch (error: any) {
+        controller.enqueue(encoder.encode(text + trailer(error)));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+
+  if (format !== "json") {
+    return fileResponse(
+      stream,
+      MEDIA_TYPES[format],
+      formatFilename(sheetName, format)
+    );
+  }
+  return new Response(stream, {
+    status: 200,
+    headers: { ...CORE_HEADERS, "Content-Type": MEDIA_TYPES[format] },
+  });
+}
@@ -0,0 +1,374 @@
+import { ServiceUnavailableException } from "../common/exceptions";
+import {
+  LIVE_HEARTBEAT_MS,
+  LIVE_MAX_BUFFER_BYTES,
+  LIVE_MAX_SUBSCRIBERS,
+  LIVE_POLL_INTERVAL_MS,
+} from "../constants";
+import { CORE_HEADERS } from "../utils/index";
+import { FiltersService } from "./filters";
+import {
+  GoogleSheetsService,
+  type PaginationMeta,
+  type SheetQueryOptions,
+} from "./service";
+
+type RowDict = Record<string, any>;
+
+export type LiveQuery = {
+  where?: any;
+  options?: SheetQueryOptions;
+  // Result columns that identify a row across refreshes. Grouped queries
+  // default to their group columns, other queries to the row's position in
+  // the result.
+  key?: string[];
+};
+
+export type LiveEvent =
+  | "snapshot"
+  | "add"
+  | "change"
+  | "remove"
+  | "sync"
+  | "error";
+
+type Subscriber = {
+  query: LiveQuery;
+  keyFields: string[];
+  etag: string | null;
+  rows: Map<string, { index: number; row: RowDict }>;
+  send: (event: LiveEvent, data: any) => void;
+};
+
+// One polling loop per spreadsheet/sheet pair, shared by all its subscribers.
+type SheetFeed = {
+  spreadsheetId: string;
+  sheet: string;
+  subscribers: Set<Subscriber>;
+  timer: ReturnType<typeof setInterval>;
+  refreshing: Promise<void> | null;
+  dirty: boolean;
+};
+
+type Evaluation = {
+  etag: string;
+  headers: string[];
+  rows: RowDict[];
+  pagination: PaginationMeta;
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export class SubscriptionService {
+  private static instance: SubscriptionService;
+  private feeds = new Map<string, SheetFeed>();
+  private filtersService = new FiltersService();
+  private readonly POLL_INTERVAL = envNumber(
+    "LIVE_POLL_INTERVAL_MS",
+    LIVE_POLL_INTERVAL_MS
+  );
+  private readonly MAX_SUBSCRIBERS = envNumber(
+    "LIVE_MAX_SUBSCRIBERS",
+    LIVE_MAX_SUBSCRIBERS
+  );
+
+  private constructor(
+    private sheetsService: GoogleSheetsService = GoogleSheetsService.getInstance()
+  ) {
+    // Writes through the API refresh the sheet's subscribers right away.
+    this.sheetsService.onRowChanges((changes) => {
+      const touched = new Set(
+        changes.map((change) => this.feedId(change.spreadsheetId, change.sheet))
+      );
+      for (const id of touched) {
+        const feed = this.feeds.get(id);
+        if (feed) void this.refresh(feed);
+      }
+    });
+  }
+
+  static getInstance(): SubscriptionService {
+    if (!SubscriptionService.instance) {
+      SubscriptionService.instance = new SubscriptionService();
+    }
+    return SubscriptionService.instance;
+  }
+
+  private feedId(spreadsheetId: string, sheet: string): string {
+    return `${spreadsheetId}:${sheet}`;
+  }
+
+  // Evaluates the query once and sends the result as a `snapshot` event.
+  // Errors in the query (bad `where`, unknown columns) and a full feed are
+  // thrown here, before the subscriber is registered. Returns the
+  // unsubscribe function.
+  async subscribe(
+    spreadsheetId: string,
+    sheet: string,
+    query: LiveQuery,
+    send: Subscriber["send"]
+  ): Promise<() => void> {
+    const values = await this.sheetsService.readValues(spreadsheetId, sheet);
+    const id = this.feedId(spreadsheetId, sheet);
+    if ((this.feeds.get(id)?.subscribers.size ?? 0) >= this.MAX_SUBSCRIBERS) {
+      throw new ServiceUnavailableException(
+        `Too many live subscriptions to ${sheet}`
+      );
+    }
+
+    const keyFields = query.key ?? this.defaultKey(query.options);
+    const subscriber: Subscriber = {
+      query,
+      keyFields,
+      etag: null,
+      rows: new Map(),
+      send,
+    };
+
+    const result = this.evaluate(spreadsheetId, sheet, values, query);
+    subscriber.etag = result.etag;
+    subscriber.rows = this.indexRows(result.rows, keyFields);
+    send("snapshot", {
+      sheet,
+      headers: result.headers,
+      rows: result.rows,
+      etag: result.etag,
+      ...result.pagination,
+    });
+
+    let feed = this.feeds.get(id);
+    if (!feed) {
+      feed = {
+        spreadsheetId,
+        sheet,
+        subscribers: new Set(),
+        timer: setInterval(
+          () => void this.refresh(this.feeds.get(id)!),
+          this.POLL_INTERVAL
+        ),
+        refreshing: null,
+        dirty: false,
+      };
+      this.feeds.set(id, feed);
+    }
+    feed.subscribers.add(subscriber);
+
+    const current = feed;
+    return () => {
+      current.subscribers.delete(subscriber);
+      if (current.subscribers.size === 0 && this.feeds.get(id) === current) {
+        clearInterval(current.timer);
+        this.feeds.delete(id);
+      }
+    };
+  }
+
+  private defaultKey(options?: SheetQueryOptions): string[] {
+    if (!options?.groupBy) return [];
+    return Array.isArray(options.groupBy) ? options.groupBy : [options.groupBy];
+  }
+
+  private evaluate(
+    spreadsheetId: string,
+    sheet: string,
+    values: string[][],
+    query: LiveQuery
+  ): Evaluation {
+    const etag = this.sheetsService.computeEtag(values);
+    const headers = (values[0] ?? []) as string[];
+    const schema = this.sheetsService.getSchema(spreadsheetId, sheet, values);
+    let rows = this.sheetsService.normalizeRows(
+      headers,
+      values.slice(1),
+      schema
+    );
+    rows = this.filtersService.applyFilters(rows, query.where, schema.types);
+    rows = this.sheetsService.applyOptions(rows, query.options, schema.types);
+    const [pageRows, pagination] = this.sheetsService.applyPagination(
+      rows,
+      query.options
+    );
+    return {
+      etag,
+      headers: this.sheetsService.resolveHeaders(headers, query.options),
+      rows: pageRows,
+      pagination,
+    };
+  }
+
+  private indexRows(
+    rows: RowDict[],
+    keyFields: string[]
+  ): Map<string, { index: number; row: RowDict }> {
+    const indexed = new Map<string, { index: number; row: RowDict }>();
+    rows.forEach((row, index) => {
+      const key =
+        keyFields.length === 0
+          ? String(index)
+          : keyFields.map((field) => String(row[field] ?? "")).join("|");
+      // Later rows with a repeated key are dropped from the diff.
+      if (!indexed.has(key)) indexed.set(key, { index, row });
+    });
+    return indexed;
+  }
+
+  // Re-reads the sheet (through the read cache) and sends each subscriber
+  // whose result changed its `remove`, `change` and `add` events followed by
+  // a `sync`. Concurrent triggers collapse into one extra pass.
+  private refresh(feed: SheetFeed): Promise<void> {
+    if (feed.refreshing) {
+      feed.dirty = true;
+      return feed.refreshing;
+    }
+
+    feed.refreshing = (async () => {
+      do {
+        feed.dirty = false;
+        try {
+          const values = await this.sheetsService.readValues(
+            feed.spreadsheetId,
+            feed.sheet
+          );
+          const etag = this.sheetsService.computeEtag(values);
+          for (const subscriber of feed.subscribers) {
+            if (subscriber.etag === etag) continue;
+            this.publish(feed, subscriber, values);
+          }
+        } catch (error: any) {
+          for (const subscriber of feed.subscribers) {
+            subscriber.send("error", {
+              status: error?.status ?? 500,
+              message: error?.message ?? String(error),
+            });
+          }
+        }
+      } while (feed.dirty);
+      feed.refreshing = null;
+    })();
+    return feed.refreshing;
+  }
+
+  private publish(
+    feed: SheetFeed,
+    subscriber: Subscriber,
+    values: string[][]
+  ): void {
+    const result = this.evaluate(
+      feed.spreadsheetId,
+      feed.sheet,
+      values,
+      subscriber.query
+    );
+    const next = this.indexRows(result.rows, subscriber.keyFields);
+    const previous = subscriber.rows;
+
+    for (const [key, { row }] of previous) {
+      if (!next.has(key)) subscriber.send("remove", { key, previous: row });
+    }
+    let moved = false;
+    for (const [key, { index, row }] of next) {
+      const before = previous.get(key);
+      if (!before) {
+        subscriber.send("add", { key, index, row });
+        continue;
+      }
+      if (before.index !== index) moved = true;
+      if (JSON.stringify(before.row) !== JSON.stringify(row)) {
+        subscriber.send("change", { key, index, row, previous: before.row });
+      }
+    }
+
+    subscriber.etag = result.etag;
+    subscriber.rows = next;
+    // Rows that only moved get no event of their own; `order` then lists
+    // every key in the new result order.
+    subscriber.send("sync", {
+      etag: result.etag,
+      ...result.pagination,
+      ...(moved ? { order: [...next.keys()] } : {}),
+    });
+  }
+}
+
+// Serves a subscription as Server-Sent Events. A comment line is sent every
+// LIVE_HEARTBEAT_MS so proxies (and Bun's own idle timeout) keep the
+// connection open; closing it unsubscribes. A reader that lets
+// LIVE_MAX_BUFFER_BYTES pile up gets a last `error` event and the stream
+// ends, so a stalled client can't grow the queue without bound.
+export async function subscriptionResponse(
+  spreadsheetId: string,
+  sheet: string,
+  query: LiveQuery,
+  signal?: AbortSignal
+): Promise<Response> {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+  let sequence = 0;
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const frame = (event: LiveEvent, data: any) =>
+    `id: ${++sequence}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  const write = (text: string) => {
+    if (closed) return;
+    try {
+      if ((controller.desiredSize ?? 0) <= 0) {
+        const message = "Subscriber fell behind; subscribe again";
+        controller.enqueue(
+          encoder.encode(frame("error", { status: 503, message }))
+        );
+        controller.close();
+        close();
+        return;
+      }
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      close();
+    }
+  };
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      start(streamController) {
+        controller = streamController;
+      },
+      cancel() {
+        close();
+      },
+    },
+    new ByteLengthQueuingStrategy({
+      highWaterMark: envNumber("LIVE_MAX_BUFFER_BYTES", LIVE_MAX_BUFFER_BYTES),
+    })
+  );
+
+  unsubscribe = await SubscriptionService.getInstance().subscribe(
+    spreadsheetId,
+    sheet,
+    query,
+    (event, data) => write(frame(event, data))
+  );
+  heartbeat = setInterval(() => write(": ping\n\n"), LIVE_HEARTBEAT_MS);
+  // The client may have left while the snapshot was read.
+  if (signal?.aborted) close();
+  signal?.addEventListener("abort", close);
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...CORE_HEADERS,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
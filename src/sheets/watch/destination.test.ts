@@ -0,0 +1,28 @@
+import { expect, test } from "bun:test";
+import { assertDeliverable, pinnedRequest } from "./destination";
+
+test("NAT64 and 6to4 addresses are refused", async () => {
+  for (const host of [
+    "[64:ff9b::7f00:1]",
+    "[64:ff9b:1::a00:1]",
+    "[2002:7f00:1::]",
+    "[::ffff:127.0.0.1]",
+  ]) {
+    await expect(assertDeliverable(`https://${host}/hook`)).rejects.toThrow(
+      "private or reserved"
+    );
+  }
+  expect(await assertDeliverable("https://[2606:4700::1111]/hook")).toBe(
+    "2606:4700::1111"
+  );
+});
+
+test("pinned requests keep the hostname for Host and TLS", () => {
+  const { url, init } = pinnedRequest(
+    "https://hooks.example.com:8443/in?x=1",
+    "2606:4700::1111"
+  );
+  expect(url).toBe("https://[2606:4700::1111]:8443/in?x=1");
+  expect(init.headers).toEqual({ Host: "hooks.example.com:8443" });
+  expect(init.tls?.serverName).toBe("hooks.example.com");
+});
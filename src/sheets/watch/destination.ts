@@ -0,0 +1,164 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { checkServerIdentity } from "node:tls";
+import { BadRequestException } from "../../common/exceptions";
+
+// IPv4 ranges a webhook must not reach: this host, private networks,
+// carrier-grade NAT, link-local (cloud metadata), benchmarking, multicast
+// and reserved space.
+const BLOCKED_V4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const v4ToNumber = (address: string) =>
+  address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+
+function isBlockedV4(address: string): boolean {
+  const value = v4ToNumber(address);
+  return BLOCKED_V4.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = v4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a
+// trailing dotted IPv4 part (::ffff:127.0.0.1) turned into two groups.
+function v6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = v4ToNumber(dotted[1]!);
+    text =
+      text.slice(0, -dotted[1]!.length) +
+      `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const parse = (part: string | undefined) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const [head, tail] = text.split("::");
+  const left = parse(head);
+  const right = parse(tail);
+  const zeros = Array<number>(8 - left.length - right.length).fill(0);
+  return [...left, ...zeros, ...right];
+}
+
+function isBlockedV6(address: string): boolean {
+  const groups = v6Groups(address);
+  const [first = 0, second = 0, third = 0] = groups;
+  const nat64 = first === 0x64 && second === 0xff9b;
+  const zeroFrom = (start: number, end: number) =>
+    groups.slice(start, end).every((group) => group === 0);
+
+  // IPv4-mapped addresses (::ffff:0:0/96) are judged by their IPv4 part.
+  if (zeroFrom(0, 5) && groups[5] === 0xffff) {
+    const high = groups[6] ?? 0;
+    const low = groups[7] ?? 0;
+    return isBlockedV4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+    );
+  }
+  return (
+    first === 0 || // ::, ::1 and other IPv4-compatible or reserved forms
+    (nat64 && zeroFrom(2, 6)) || // NAT64 64:ff9b::/96
+    (nat64 && third === 1) || // local-use NAT64 64:ff9b:1::/48
+    first === 0x2002 || // 6to4 2002::/16
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !isBlockedV4(address);
+  if (family === 6) return !isBlockedV6(address);
+  return false;
+}
+
+// WEBHOOK_ALLOWED_HOSTS (comma-separated) restricts webhooks to those hosts.
+// The operator vouches for them, so they may resolve to private addresses.
+function allowedHosts(): string[] {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Throws unless `url` may receive deliveries: its host is on the allowlist,
+// or (without one) every address it resolves to is public. Checked when a
+// webhook is registered and again before each delivery, since DNS answers
+// can change in between. Returns the address a delivery should connect to,
+// or null for allowlisted hosts, which are reached by name.
+export async function assertDeliverable(url: string): Promise<string | null> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+  const allowlist = allowedHosts();
+  if (allowlist.length > 0) {
+    if (!allowlist.includes(host)) {
+      throw new BadRequestException(
+        `Webhook host ${host} is not in WEBHOOK_ALLOWED_HOSTS`
+      );
+    }
+    return null;
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      throw new BadRequestException(`Webhook host ${host} does not resolve`);
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new BadRequestException(
+      `Webhook host ${host} resolves to a private or reserved address`
+    );
+  }
+  return addresses[0]!;
+}
+
+// Fetch target and options that connect to `address` while presenting the
+// URL's own host in the Host header, TLS SNI and certificate check. Pinning
+// the checked address keeps a DNS answer that changes after the check
+// (rebinding) from pointing the delivery somewhere else.
+export function pinnedRequest(
+  url: string,
+  address: string
+): {
+  url: string;
+  init: { headers: Record<string, string>; tls?: Record<string, any> };
+} {
+  const target = new URL(url);
+  const host = target.host;
+  const hostname = target.hostname;
+  target.hostname = isIP(address) === 6 ? `[${address}]` : address;
+
+  const init: { headers: Record<string, string>; tls?: Record<string, any> } = {
+    headers: { Host: host },
+  };
+  if (target.protocol === "https:" && !isIP(hostname.replace(/^\[|\]$/g, ""))) {
+    init.tls = {
+      serverName: hostname,
+      checkServerIdentity: (_: string, cert: any) =>
+        checkServerIdentity(hostname, cert),
+    };
+  }
+  return { url: target.toString(), init };
+}
@@ -0,0 +1,89 @@
+import type { RowChangeType } from "../service";
+import type { Snapshot, SnapshotRow } from "./types";
+
+type RowDict = Record<string, any>;
+
+export type RowDiff = {
+  type: RowChangeType;
+  key: string;
+  rowNumber: number;
+  row?: RowDict;
+  previous?: RowDict;
+};
+
+// Row identity: the key column's value, or the 1-based sheet row number.
+export function rowKey(
+  row: RowDict,
+  rowNumber: number,
+  keyColumn: string | null
+): string {
+  return keyColumn === null ? String(rowNumber) : String(row[keyColumn] ?? "");
+}
+
+// Rows with a blank key are left out, and only the first row with a given
+// key is tracked.
+export function takeSnapshot(
+  headers: string[],
+  rows: RowDict[],
+  keyColumn: string | null
+): Snapshot {
+  const seen = new Set<string>();
+  const tracked: SnapshotRow[] = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // +1 for header, +1 for 1-based
+    const key = rowKey(row, rowNumber, keyColumn);
+    if (key === "" || seen.has(key)) return;
+    seen.add(key);
+    tracked.push({ key, rowNumber, row: { ...row } });
+  });
+  return { headers, rows: tracked };
+}
+
+export function sameRow(a: RowDict, b: RowDict): boolean {
+  const columns = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const column of columns) {
+    if (String(a[column] ?? "") !== String(b[column] ?? "")) return false;
+  }
+  return true;
+}
+
+// Created and updated rows in the new sheet order, then deleted rows in
+// their old order.
+export function diffSnapshots(previous: Snapshot, next: Snapshot): RowDiff[] {
+  const before = new Map(previous.rows.map((entry) => [entry.key, entry]));
+  const after = new Set(next.rows.map((entry) => entry.key));
+  const changes: RowDiff[] = [];
+
+  for (const current of next.rows) {
+    const old = before.get(current.key);
+    if (!old) {
+      changes.push({
+        type: "row.created",
+        key: current.key,
+        rowNumber: current.rowNumber,
+        row: current.row,
+      });
+    } else if (!sameRow(old.row, current.row)) {
+      changes.push({
+        type: "row.updated",
+        key: current.key,
+        rowNumber: current.rowNumber,
+        row: current.row,
+        previous: old.row,
+      });
+    }
+  }
+
+  for (const old of previous.rows) {
+    if (!after.has(old.key)) {
+      changes.push({
+        type: "row.deleted",
+        key: old.key,
+        rowNumber: old.rowNumber,
+        previous: old.row,
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,192 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_TIMEOUT_MS } from "../../constants";
+import { assertDeliverable, pinnedRequest } from "./destination";
+import type { WatchStore } from "./store";
+import type { Delivery, SheetEvent, Webhook } from "./types";
+
+export type DispatcherOptions = {
+  maxAttempts: number;
+  timeoutMs: number;
+  pollMs: number;
+  batchSize: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Delivered outbox entries are kept this long, dead letters indefinitely.
+  retentionMs: number;
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export function dispatcherOptionsFromEnv(): DispatcherOptions {
+  return {
+    maxAttempts: envNumber("WEBHOOK_MAX_ATTEMPTS", WEBHOOK_MAX_ATTEMPTS),
+    timeoutMs: envNumber("WEBHOOK_TIMEOUT_MS", WEBHOOK_TIMEOUT_MS),
+    pollMs: 1000,
+    batchSize: 20,
+    baseDelayMs: 5000,
+    maxDelayMs: 3600000,
+    retentionMs: 86400000,
+  };
+}
+
+// `sha256=<hex>` over "<timestamp>.<body>", so a captured body can't be
+// replayed with a fresh timestamp.
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+// Delivers queued events from the persisted outbox. Each delivery is retried
+// with exponential backoff and full jitter until the endpoint answers 2xx or
+// maxAttempts is reached, after which it stays in the outbox as "failed".
+export class WebhookDispatcher {
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private store: WatchStore,
+    private options: DispatcherOptions = dispatcherOptionsFromEnv()
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.options.pollMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Queues one delivery per webhook subscribed to the event's sheet and type.
+  enqueue(events: SheetEvent[]): number {
+    if (events.length === 0) return 0;
+
+    const deliveries: Delivery[] = [];
+    const webhooks = new Map<string, Webhook[]>();
+    for (const event of events) {
+      let candidates = webhooks.get(event.spreadsheetId);
+      if (!candidates) {
+        candidates = this.store.listWebhooks(event.spreadsheetId);
+        webhooks.set(event.spreadsheetId, candidates);
+      }
+      for (const webhook of candidates) {
+        if (webhook.sheet !== null && webhook.sheet !== event.sheet) continue;
+        if (
+          !webhook.events.includes("*") &&
+          !webhook.events.includes(event.type)
+        ) {
+          continue;
+        }
+        deliveries.push({
+          id: randomUUID(),
+          webhookId: webhook.id,
+          event,
+          attempts: 0,
+          nextAttemptAt: Date.now(),
+          status: "pending",
+          lastError: null,
+        });
+      }
+    }
+
+    if (deliveries.length > 0) {
+      this.store.enqueue(deliveries);
+      void this.tick();
+    }
+    return deliveries.length;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let due: Delivery[];
+      do {
+        due = this.store.dueDeliveries(Date.now(), this.options.batchSize);
+        await Promise.all(due.map((delivery) => this.deliver(delivery)));
+      } while (due.length === this.options.batchSize);
+      this.store.pruneDelivered(Date.now() - this.options.retentionMs);
+    } catch (error) {
+      console.warn("⚠️  Webhook dispatch failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(delivery: Delivery): Promise<void> {
+    const webhook = this.store.getWebhook(delivery.webhookId);
+    if (!webhook) {
+      this.store.markFailed(delivery.id, "Webhook was removed", null);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let address: string | null;
+    try {
+      address = await assertDeliverable(webhook.url);
+    } catch (error: any) {
+      this.store.markFailed(delivery.id, error?.message ?? String(error), null);
+      return;
+    }
+    const target = address
+      ? pinnedRequest(webhook.url, address)
+      : { url: webhook.url, init: { headers: {} } };
+
+    let failure: string;
+    try {
+      const response = await fetch(target.url, {
+        ...target.init,
+        method: "POST",
+        headers: {
+          ...target.init.headers,
+          "Content-Type": "application/json",
+          "User-Agent": "gsheet-bun-webhooks",
+          "X-Webhook-Id": webhook.id,
+          "X-Webhook-Delivery": delivery.id,
+          "X-Webhook-Event": delivery.event.type,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        // A redirect could point anywhere, including internal hosts.
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      if (response.ok) {
+        this.store.markDelivered(delivery.id);
+        return;
+      }
+      failure = `HTTP ${response.status}`;
+    } catch (error: any) {
+      failure = error?.message ?? String(error);
+    }
+
+    const attempt = delivery.attempts + 1;
+    if (attempt >= this.options.maxAttempts) {
+      this.store.markFailed(delivery.id, failure, null);
+      console.warn(
+        `⚠️  Webhook ${webhook.id} delivery ${delivery.id} failed after ${attempt} attempts: ${failure}`
+      );
+      return;
+    }
+
+    const ceiling = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** (attempt - 1)
+    );
+    const delay = Math.max(1000, Math.floor(Math.random() * ceiling));
+    this.store.markFailed(delivery.id, failure, Date.now() + delay);
+  }
+}
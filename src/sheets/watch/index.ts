@@ -0,0 +1,12 @@
+export type {
+  Delivery,
+  DeliveryStatus,
+  SheetEvent,
+  Snapshot,
+  Watch,
+  Webhook,
+  WebhookEventType,
+} from "./types";
+export { WatchStore } from "./store";
+export { WebhookDispatcher, signPayload } from "./dispatcher";
+export { WatchService, type WebhookSummary } from "./service";
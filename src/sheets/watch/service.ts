@@ -0,0 +1,376 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import {
+  BadRequestException,
+  NotFoundException,
+} from "../../common/exceptions";
+import { GoogleSheetsService, type RowChange } from "../service";
+import { assertDeliverable } from "./destination";
+import { WebhookDispatcher } from "./dispatcher";
+import {
+  diffSnapshots,
+  rowKey,
+  sameRow,
+  takeSnapshot,
+  type RowDiff,
+} from "./diff";
+import { WatchStore } from "./store";
+import type {
+  DeliveryStatus,
+  SheetEvent,
+  Snapshot,
+  Watch,
+  Webhook,
+  WebhookEventType,
+} from "./types";
+
+type RowDict = Record<string, any>;
+
+export type WebhookSummary = Omit<Webhook, "secret"> & {
+  deliveries: Record<DeliveryStatus, number>;
+};
+
+export class WatchService {
+  private static instance: WatchService;
+  private store = new WatchStore();
+  private dispatcher = new WebhookDispatcher(this.store);
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Bumped whenever a watched sheet's snapshot is replaced, so a poll that
+  // read the sheet before that doesn't overwrite the newer snapshot.
+  private versions = new Map<string, number>();
+  private unsubscribe?: () => void;
+
+  private constructor(
+    private sheetsService: GoogleSheetsService = GoogleSheetsService.getInstance()
+  ) {}
+
+  static getInstance(): WatchService {
+    if (!WatchService.instance) {
+      WatchService.instance = new WatchService();
+    }
+    return WatchService.instance;
+  }
+
+  // Resumes polling for persisted watches and starts delivering the outbox.
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.sheetsService.onRowChanges((changes) =>
+      this.handleApiChanges(changes)
+    );
+    for (const watch of this.store.listWatches()) {
+      this.schedule(watch);
+    }
+    this.dispatcher.start();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.dispatcher.stop();
+  }
+
+  private watchId(spreadsheetId: string, sheet: string): string {
+    return `${spreadsheetId}:${sheet}`;
+  }
+
+  private bump(id: string): void {
+    this.versions.set(id, (this.versions.get(id) ?? 0) + 1);
+  }
+
+  private async readSheet(
+    spreadsheetId: string,
+    sheet: string
+  ): Promise<[string[], RowDict[]]> {
+    const values = await this.sheetsService.readUncached(spreadsheetId, sheet);
+    const headers = ((values[0] ?? []) as any[]).map((h) => String(h));
+    return [
+      headers,
+      this.sheetsService.normalizeRows(headers, values.slice(1)),
+    ];
+  }
+
+  listWatches(spreadsheetId: string): Watch[] {
+    return this.store.listWatches(spreadsheetId);
+  }
+
+  // Registers (or re-registers) a watch and takes its baseline snapshot;
+  // rows already in the sheet produce no events.
+  async addWatch(
+    spreadsheetId: string,
+    sheet: string,
+    options: { key: string | null; intervalMs: number }
+  ): Promise<Watch> {
+    const [headers, rows] = await this.readSheet(spreadsheetId, sheet);
+    if (options.key !== null && !headers.includes(options.key)) {
+      throw new BadRequestException(
+        `Key column "${options.key}" not found in ${sheet}`
+      );
+    }
+
+    const now = Date.now();
+    const watch: Watch = {
+      spreadsheetId,
+      sheet,
+      key: options.key,
+      intervalMs: options.intervalMs,
+      createdAt: this.store.getWatch(spreadsheetId, sheet)?.createdAt ?? now,
+      polledAt: now,
+    };
+    this.bump(this.watchId(spreadsheetId, sheet));
+    this.store.saveWatch(watch, takeSnapshot(headers, rows, watch.key));
+    this.schedule(watch);
+    return watch;
+  }
+
+  removeWatch(spreadsheetId: string, sheet: string): void {
+    const id = this.watchId(spreadsheetId, sheet);
+    if (!this.store.deleteWatch(spreadsheetId, sheet)) {
+      throw new NotFoundException(`No watch on ${sheet}`);
+    }
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.bump(id);
+  }
+
+  private schedule(watch: Watch): void {
+    const id = this.watchId(watch.spreadsheetId, watch.sheet);
+    clearTimeout(this.timers.get(id));
+    const timer = setTimeout(async () => {
+      try {
+        await this.poll(watch.spreadsheetId, watch.sheet);
+      } catch (error: any) {
+        console.warn(
+          `⚠️  Polling ${watch.spreadsheetId}/${watch.sheet} failed: ${error?.message}`
+        );
+      }
+      const current = this.store.getWatch(watch.spreadsheetId, watch.sheet);
+      if (current && this.timers.get(id) === timer) this.schedule(current);
+    }, watch.intervalMs);
+    this.timers.set(id, timer);
+  }
+
+  // Re-reads the sheet and emits an event for every row that differs from
+  // the last snapshot. Returns the number of events emitted.
+  async poll(spreadsheetId: string, sheet: string): Promise<number> {
+    const watch = this.store.getWatch(spreadsheetId, sheet);
+    if (!watch) return 0;
+
+    const id = this.watchId(spreadsheetId, sheet);
+    const version = this.versions.get(id) ?? 0;
+    const [headers, rows] = await this.readSheet(spreadsheetId, sheet);
+    // An API write landed while reading; its events are already out and the
+    // next poll picks up anything else.
+    if ((this.versions.get(id) ?? 0) !== version) return 0;
+
+    const previous = this.store.getSnapshot(spreadsheetId, sheet);
+    const next = takeSnapshot(headers, rows, watch.key);
+    this.store.saveSnapshot(spreadsheetId, sheet, next, Date.now());
+    if (!previous) return 0;
+    return this.publish(
+      spreadsheetId,
+      sheet,
+      diffSnapshots(previous, next),
+      "poll"
+    );
+  }
+
+  // Writes made through the API are published right away and folded into
+  // the watch's snapshot so the next poll doesn't report them again.
+  private handleApiChanges(changes: RowChange[]): void {
+    const bySheet = new Map<string, RowChange[]>();
+    for (const change of changes) {
+      const id = this.watchId(change.spreadsheetId, change.sheet);
+      const group = bySheet.get(id);
+      if (group) group.push(change);
+      else bySheet.set(id, [change]);
+    }
+
+    for (const [id, group] of bySheet) {
+      const { spreadsheetId, sheet } = group[0]!;
+      const watch = this.store.getWatch(spreadsheetId, sheet);
+      const snapshot = watch && this.store.getSnapshot(spreadsheetId, sheet);
+
+      if (!watch || !snapshot) {
+        this.publish(
+          spreadsheetId,
+          sheet,
+          group.map((change) => ({
+            type: change.type,
+            key: String(change.rowNumber),
+            rowNumber: change.rowNumber,
+            row: change.row,
+            previous: change.previous,
+          })),
+          "api"
+        );
+        continue;
+      }
+
+      const diffs: RowDiff[] = [];
+      let resync = false;
+      for (const change of group) {
+        if (change.type === "row.deleted" && watch.key === null) {
+          // Deleting shifts every row position below it; re-baseline instead
+          // of renumbering the snapshot.
+          resync = true;
+          diffs.push({
+            type: change.type,
+            key: String(change.rowNumber),
+            rowNumber: change.rowNumber,
+            previous: change.previous,
+          });
+          continue;
+        }
+        const diff = this.applyChange(snapshot, watch.key, change);
+        if (diff) diffs.push(diff);
+      }
+
+      this.bump(id);
+      this.store.saveSnapshot(spreadsheetId, sheet, snapshot, Date.now());
+      this.publish(spreadsheetId, sheet, diffs, "api");
+      if (resync) void this.resync(watch);
+    }
+  }
+
+  // Folds one API change into the snapshot. Returns null when the snapshot
+  // already reflects it (e.g. a poll saw the write first) or the row isn't
+  // tracked.
+  private applyChange(
+    snapshot: Snapshot,
+    keyColumn: string | null,
+    change: RowChange
+  ): RowDiff | null {
+    const { rowNumber } = change;
+    const indexOf = (key: string) =>
+      snapshot.rows.findIndex((entry) => entry.key === key);
+
+    if (change.type === "row.deleted") {
+      const key = rowKey(change.previous ?? {}, rowNumber, keyColumn);
+      const index = indexOf(key);
+      if (index === -1) return null;
+      snapshot.rows.splice(index, 1);
+      return { type: change.type, key, rowNumber, previous: change.previous };
+    }
+
+    const row = { ...change.row };
+    const key = rowKey(row, rowNumber, keyColumn);
+    if (key === "") return null;
+
+    const oldKey = change.previous
+      ? rowKey(change.previous, rowNumber, keyColumn)
+      : key;
+    const index = change.type === "row.updated" ? indexOf(oldKey) : -1;
+    if (index === -1) {
+      if (indexOf(key) !== -1) return null;
+      snapshot.rows.push({ key, rowNumber, row });
+      return { type: "row.created", key, rowNumber, row };
+    }
+
+    const existing = snapshot.rows[index]!;
+    if (existing.key === key && sameRow(existing.row, row)) return null;
+    snapshot.rows[index] = { key, rowNumber, row };
+    return {
+      type: "row.updated",
+      key,
+      rowNumber,
+      row,
+      previous: change.previous ?? existing.row,
+    };
+  }
+
+  // Replaces the snapshot without emitting events. Edits made by others
+  // between the API write and this read are not reported.
+  private async resync(watch: Watch): Promise<void> {
+    const id = this.watchId(watch.spreadsheetId, watch.sheet);
+    try {
+      this.bump(id);
+      const version = this.versions.get(id);
+      const [headers, rows] = await this.readSheet(
+        watch.spreadsheetId,
+        watch.sheet
+      );
+      if (this.versions.get(id) !== version) return;
+      this.store.saveSnapshot(
+        watch.spreadsheetId,
+        watch.sheet,
+        takeSnapshot(headers, rows, watch.key),
+        Date.now()
+      );
+    } catch (error: any) {
+      console.warn(
+        `⚠️  Re-reading ${watch.spreadsheetId}/${watch.sheet} failed: ${error?.message}`
+      );
+    }
+  }
+
+  private publish(
+    spreadsheetId: string,
+    sheet: string,
+    diffs: RowDiff[],
+    source: SheetEvent["source"]
+  ): number {
+    const occurredAt = new Date().toISOString();
+    const events: SheetEvent[] = diffs.map((diff) => ({
+      id: randomUUID(),
+      type: diff.type,
+      spreadsheetId,
+      sheet,
+      key: diff.key,
+      rowNumber: diff.rowNumber,
+      row: diff.row,
+      previous: diff.previous,
+      source,
+      occurredAt,
+    }));
+    this.dispatcher.enqueue(events);
+    return events.length;
+  }
+
+  listWebhooks(spreadsheetId: string): WebhookSummary[] {
+    return this.store
+      .listWebhooks(spreadsheetId)
+      .map(({ secret, ...rest }) => ({
+        ...rest,
+        deliveries: this.store.deliveryCounts(rest.id),
+      }));
+  }
+
+  // Without a secret one is generated; it is only returned here.
+  async createWebhook(
+    spreadsheetId: string,
+    options: {
+      url: string;
+      sheet: string | null;
+      secret?: string;
+      events: WebhookEventType[];
+    }
+  ): Promise<Webhook> {
+    await assertDeliverable(options.url);
+    const webhook: Webhook = {
+      id: randomUUID(),
+      spreadsheetId,
+      sheet: options.sheet,
+      url: options.url,
+      secret: options.secret ?? randomBytes(32).toString("hex"),
+      events: options.events,
+      createdAt: Date.now(),
+    };
+    this.store.saveWebhook(webhook);
+    return webhook;
+  }
+
+  getWebhook(spreadsheetId: string, webhookId: string): WebhookSummary {
+    const webhook = this.store.getWebhook(webhookId);
+    if (!webhook || webhook.spreadsheetId !== spreadsheetId) {
+      throw new NotFoundException(`Webhook ${webhookId} not found`);
+    }
+    const { secret, ...rest } = webhook;
+    return { ...rest, deliveries: this.store.deliveryCounts(webhookId) };
+  }
+
+  deleteWebhook(spreadsheetId: string, webhookId: string): void {
+    this.getWebhook(spreadsheetId, webhookId);
+    this.store.deleteWebhook(webhookId);
+  }
+}
@@ -0,0 +1,309 @@
+import { Database } from "bun:sqlite";
+import type {
+  Delivery,
+  DeliveryStatus,
+  Snapshot,
+  Watch,
+  Webhook,
+} from "./types";
+
+type WatchRow = {
+  spreadsheet_id: string;
+  sheet: string;
+  key_column: string | null;
+  interval_ms: number;
+  created_at: number;
+  polled_at: number | null;
+};
+
+type WebhookRow = {
+  id: string;
+  spreadsheet_id: string;
+  sheet: string | null;
+  url: string;
+  secret: string;
+  events: string;
+  created_at: number;
+};
+
+type DeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event: string;
+  attempts: number;
+  next_attempt_at: number;
+  status: DeliveryStatus;
+  last_error: string | null;
+};
+
+const toWatch = (row: WatchRow): Watch => ({
+  spreadsheetId: row.spreadsheet_id,
+  sheet: row.sheet,
+  key: row.key_column,
+  intervalMs: row.interval_ms,
+  createdAt: row.created_at,
+  polledAt: row.polled_at,
+});
+
+const toWebhook = (row: WebhookRow): Webhook => ({
+  id: row.id,
+  spreadsheetId: row.spreadsheet_id,
+  sheet: row.sheet,
+  url: row.url,
+  secret: row.secret,
+  events: JSON.parse(row.events),
+  createdAt: row.created_at,
+});
+
+const toDelivery = (row: DeliveryRow): Delivery => ({
+  id: row.id,
+  webhookId: row.webhook_id,
+  event: JSON.parse(row.event),
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  status: row.status,
+  lastError: row.last_error,
+});
+
+// Watches, their last snapshots, webhook registrations and the delivery
+// outbox, kept in one SQLite file so pending deliveries survive restarts.
+export class WatchStore {
+  private db: Database;
+
+  constructor(path: string = process.env.WATCH_DB_PATH || "watch.sqlite") {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA busy_timeout = 5000");
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS watches (
+        spreadsheet_id TEXT NOT NULL,
+        sheet TEXT NOT NULL,
+        key_column TEXT,
+        interval_ms INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        polled_at INTEGER,
+        snapshot TEXT,
+        PRIMARY KEY (spreadsheet_id, sheet)
+      )`
+    );
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        spreadsheet_id TEXT NOT NULL,
+        sheet TEXT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`
+    );
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS outbox (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        last_error TEXT,
+        created_at INTEGER NOT NULL
+      )`
+    );
+    this.db.exec(
+      "CREATE INDEX IF NOT EXISTS outbox_due ON outbox (status, next_attempt_at)"
+    );
+  }
+
+  listWatches(spreadsheetId?: string): Watch[] {
+    const rows =
+      spreadsheetId === undefined
+        ? this.db.query<WatchRow, []>("SELECT * FROM watches").all()
+        : this.db
+            .query<WatchRow, [string]>(
+              "SELECT * FROM watches WHERE spreadsheet_id = ?"
+            )
+            .all(spreadsheetId);
+    return rows.map(toWatch);
+  }
+
+  getWatch(spreadsheetId: string, sheet: string): Watch | undefined {
+    const row = this.db
+      .query<WatchRow, [string, string]>(
+        "SELECT * FROM watches WHERE spreadsheet_id = ? AND sheet = ?"
+      )
+      .get(spreadsheetId, sheet);
+    return row ? toWatch(row) : undefined;
+  }
+
+  saveWatch(watch: Watch, snapshot: Snapshot): void {
+    this.db
+      .query(
+        `INSERT INTO watches
+           (spreadsheet_id, sheet, key_column, interval_ms, created_at, polled_at, snapshot)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (spreadsheet_id, sheet) DO UPDATE SET
+           key_column = excluded.key_column,
+           interval_ms = excluded.interval_ms,
+           polled_at = excluded.polled_at,
+           snapshot = excluded.snapshot`
+      )
+      .run(
+        watch.spreadsheetId,
+        watch.sheet,
+        watch.key,
+        watch.intervalMs,
+        watch.createdAt,
+        watch.polledAt,
+        JSON.stringify(snapshot)
+      );
+  }
+
+  deleteWatch(spreadsheetId: string, sheet: string): boolean {
+    const result = this.db
+      .query("DELETE FROM watches WHERE spreadsheet_id = ? AND sheet = ?")
+      .run(spreadsheetId, sheet);
+    return result.changes > 0;
+  }
+
+  getSnapshot(spreadsheetId: string, sheet: string): Snapshot | undefined {
+    const row = this.db
+      .query<{ snapshot: string | null }, [string, string]>(
+        "SELECT snapshot FROM watches WHERE spreadsheet_id = ? AND sheet = ?"
+      )
+      .get(spreadsheetId, sheet);
+    return row?.snapshot ? JSON.parse(row.snapshot) : undefined;
+  }
+
+  saveSnapshot(
+    spreadsheetId: string,
+    sheet: string,
+    snapshot: Snapshot,
+    polledAt: number
+  ): void {
+    this.db
+      .query(
+        `UPDATE watches SET snapshot = ?, polled_at = ?
+         WHERE spreadsheet_id = ? AND sheet = ?`
+      )
+      .run(JSON.stringify(snapshot), polledAt, spreadsheetId, sheet);
+  }
+
+  listWebhooks(spreadsheetId: string): Webhook[] {
+    return this.db
+      .query<WebhookRow, [string]>(
+        "SELECT * FROM webhooks WHERE spreadsheet_id = ? ORDER BY created_at"
+      )
+      .all(spreadsheetId)
+      .map(toWebhook);
+  }
+
+  getWebhook(id: string): Webhook | undefined {
+    const row = this.db
+      .query<WebhookRow, [string]>("SELECT * FROM webhooks WHERE id = ?")
+      .get(id);
+    return row ? toWebhook(row) : undefined;
+  }
+
+  saveWebhook(webhook: Webhook): void {
+    this.db
+      .query(
+        `INSERT INTO webhooks (id, spreadsheet_id, sheet, url, secret, events, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        webhook.id,
+        webhook.spreadsheetId,
+        webhook.sheet,
+        webhook.url,
+        webhook.secret,
+        JSON.stringify(webhook.events),
+        webhook.createdAt
+      );
+  }
+
+  // Removes the webhook together with its queued and dead-lettered
+  // deliveries.
+  deleteWebhook(id: string): boolean {
+    this.db.query("DELETE FROM outbox WHERE webhook_id = ?").run(id);
+    const result = this.db.query("DELETE FROM webhooks WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+
+  enqueue(deliveries: Delivery[]): void {
+    const insert = this.db.query(
+      `INSERT INTO outbox (id, webhook_id, event, attempts, next_attempt_at, status, created_at)
+       VALUES (?, ?, ?, 0, ?, 'pending', ?)`
+    );
+    const now = Date.now();
+    this.db.transaction(() => {
+      for (const delivery of deliveries) {
+        insert.run(
+          delivery.id,
+          delivery.webhookId,
+          JSON.stringify(delivery.event),
+          delivery.nextAttemptAt,
+          now
+        );
+      }
+    })();
+  }
+
+  dueDeliveries(now: number, limit: number): Delivery[] {
+    return this.db
+      .query<DeliveryRow, [number, number]>(
+        `SELECT * FROM outbox
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at, created_at LIMIT ?`
+      )
+      .all(now, limit)
+      .map(toDelivery);
+  }
+
+  markDelivered(id: string): void {
+    this.db
+      .query(
+        "UPDATE outbox SET status = 'delivered', attempts = attempts + 1, last_error = NULL WHERE id = ?"
+      )
+      .run(id);
+  }
+
+  markFailed(id: string, error: string, nextAttemptAt: number | null): void {
+    this.db
+      .query(
+        `UPDATE outbox SET
+           attempts = attempts + 1,
+           last_error = ?,
+           status = ?,
+           next_attempt_at = COALESCE(?, next_attempt_at)
+         WHERE id = ?`
+      )
+      .run(
+        error,
+        nextAttemptAt === null ? "failed" : "pending",
+        nextAttemptAt,
+        id
+      );
+  }
+
+  // Drops delivered entries older than `before`; dead letters are kept.
+  pruneDelivered(before: number): void {
+    this.db
+      .query("DELETE FROM outbox WHERE status = 'delivered' AND created_at < ?")
+      .run(before);
+  }
+
+  deliveryCounts(webhookId: string): Record<DeliveryStatus, number> {
+    const counts: Record<DeliveryStatus, number> = {
+      pending: 0,
+      delivered: 0,
+      failed: 0,
+    };
+    const rows = this.db
+      .query<{ status: DeliveryStatus; count: number }, [string]>(
+        "SELECT status, COUNT(*) AS count FROM outbox WHERE webhook_id = ? GROUP BY status"
+      )
+      .all(webhookId);
+    for (const row of rows) counts[row.status] = row.count;
+    return counts;
+  }
+}
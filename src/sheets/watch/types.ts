@@ -0,0 +1,62 @@
+import type { RowChangeType } from "../service";
+
+type RowDict = Record<string, any>;
+
+// A watched tab. Rows are matched between snapshots by the `key` column, or
+// by row position when no key is set.
+export type Watch = {
+  spreadsheetId: string;
+  sheet: string;
+  key: string | null;
+  intervalMs: number;
+  createdAt: number;
+  polledAt: number | null;
+};
+
+export type WebhookEventType = RowChangeType | "*";
+
+// `sheet: null` subscribes to every watched tab of the spreadsheet.
+export type Webhook = {
+  id: string;
+  spreadsheetId: string;
+  sheet: string | null;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: number;
+};
+
+export type SnapshotRow = { key: string; rowNumber: number; row: RowDict };
+
+// Rows in sheet order.
+export type Snapshot = {
+  headers: string[];
+  rows: SnapshotRow[];
+};
+
+// Body of one webhook delivery. `source` tells writes made through this API
+// ("api") apart from edits found by polling ("poll").
+export type SheetEvent = {
+  id: string;
+  type: RowChangeType;
+  spreadsheetId: string;
+  sheet: string;
+  key: string;
+  rowNumber: number;
+  row?: RowDict;
+  previous?: RowDict;
+  source: "api" | "poll";
+  occurredAt: string;
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export type Delivery = {
+  id: string;
+  webhookId: string;
+  event: SheetEvent;
+  attempts: number;
+  nextAttemptAt: number;
+  status: DeliveryStatus;
+  lastError: string | null;
+};
@@ -1,3 +1,52 @@
+import type { JsonSchema } from "../common/schema";
+
 export interface IRoute {
   params: Record<string, string>;
 }
+
+// Throws (403) when the caller may not use the route.
+export type RouteAuthorizer = (route: IRoute) => void | Promise<void>;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ParameterDefinition {
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+  // The value is URL-encoded JSON checked against `schema`, rather than a
+  // plain string.
+  json?: boolean;
+}
+
+export interface BodyDefinition {
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+  // Defaults to application/json, the only type validated before the
+  // handler runs.
+  contentTypes?: string[];
+}
+
+export interface ResponseDefinition {
+  description: string;
+  schema?: JsonSchema;
+  contentTypes?: string[];
+}
+
+// One route's method, path and request shape. It drives request validation
+// in createRoute and the OpenAPI document.
+export interface RouteDefinition {
+  method: HttpMethod;
+  // `:name` segments are path parameters.
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: Record<string, ParameterDefinition>;
+  query?: Record<string, ParameterDefinition>;
+  body?: BodyDefinition;
+  responses?: Record<number, ResponseDefinition>;
+  // Served without credentials.
+  public?: boolean;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { CsvParser, parseCsv, toCsv, toExportCsv } from "./csv";
+
+describe("parseCsv", () => {
+  test("handles quotes, escaped quotes and embedded line breaks", () => {
+    expect(parseCsv('a,"b,c","say ""hi""","x\r\ny"\r\n1,2,3,4\n')).toEqual([
+      ["a", "b,c", 'say "hi"', "x\r\ny"],
+      ["1", "2", "3", "4"],
+    ]);
+  });
+
+  test("keeps a quoted empty field at the end of the input", () => {
+    expect(parseCsv('a,""')).toEqual([["a", ""]]);
+    expect(parseCsv('x\n""')).toEqual([["x"], [""]]);
+    expect(parseCsv("")).toEqual([]);
+  });
+
+  test("quotes and \\r\\n may span chunks", () => {
+    const parser = new CsvParser();
+    const rows = [
+      ...parser.push('a,"b"'),
+      ...parser.push('"c"\r'),
+      ...parser.push('\n""'),
+      ...parser.end(),
+    ];
+    expect(rows).toEqual([["a", 'b"c'], [""]]);
+  });
+});
+
+describe("toCsv", () => {
+  test("quotes cells that need it and round-trips", () => {
+    const rows = [["a", "b,c", 'say "hi"', "x\ny", ""]];
+    expect(toCsv(rows)).toBe('a,"b,c","say ""hi""","x\ny",');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("toExportCsv", () => {
+  test("prefixes cells a spreadsheet app would run as formulas", () => {
+    const rows = [["=1+1", "+1", "-x", "@SUM(A1)", "\tx", "\rx", "a=b", -5]];
+    expect(toExportCsv(rows)).toBe(
+      `'=1+1,'+1,'-x,'@SUM(A1),'\tx,"'\rx",a=b,-5`
+    );
+  });
+
+  test("leaves storage CSV untouched", () => {
+    expect(toCsv([["=1+1"]])).toBe("=1+1");
+  });
+});
@@ -0,0 +1,105 @@
+// RFC 4180 style CSV helpers: quoted fields may contain commas, quotes ("")
+// and line breaks; both \n and \r\n row endings are accepted.
+
+// Incremental parser for streamed input: feed text as it arrives and collect
+// the rows completed so far. Quotes and \r\n may span chunk boundaries.
+export class CsvParser {
+  private row: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  // The previous chunk ended on a quote or \r whose meaning depends on the
+  // next character.
+  private pending: '"' | "\r" | null = null;
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i]!;
+
+      if (this.pending === '"') {
+        this.pending = null;
+        if (ch === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      } else if (this.pending === "\r") {
+        this.pending = null;
+        if (ch === "\n") continue;
+      }
+
+      if (this.inQuotes) {
+        if (ch === '"') {
+          this.pending = '"';
+        } else {
+          this.field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inQuotes = true;
+      } else if (ch === ",") {
+        this.row.push(this.field);
+        this.field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        if (ch === "\r") this.pending = "\r";
+        this.row.push(this.field);
+        rows.push(this.row);
+        this.row = [];
+        this.field = "";
+      } else {
+        this.field += ch;
+      }
+    }
+
+    return rows;
+  }
+
+  // Flushes a final row that has no trailing line break. A quoted field
+  // still open here counts even when empty, so a last row of `""` is kept.
+  end(): string[][] {
+    const rows: string[][] = [];
+    const quoted = this.inQuotes || this.pending === '"';
+    if (this.field !== "" || this.row.length > 0 || quoted) {
+      this.row.push(this.field);
+      rows.push(this.row);
+    }
+    this.row = [];
+    this.field = "";
+    this.inQuotes = false;
+    this.pending = null;
+    return rows;
+  }
+}
+
+export function parseCsv(text: string): string[][] {
+  const parser = new CsvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+export function escapeCsvCell(value: any): string {
+  if (value === null || value === undefined) return "";
+  const str = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function toCsv(rows: any[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+// Spreadsheet apps run a cell starting with one of these as a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// For CSV handed to users rather than read back here: text a spreadsheet app
+// would run as a formula gets a leading ' so it opens as plain text.
+export function escapeExportCell(value: any): string {
+  return typeof value === "string" && FORMULA_START.test(value)
+    ? escapeCsvCell(`'${value}`)
+    : escapeCsvCell(value);
+}
+
+export function toExportCsv(rows: any[][]): string {
+  return rows.map((row) => row.map(escapeExportCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,36 @@
+import { afterAll, expect, test } from "bun:test";
+import { parseDate } from "./dates";
+
+const zone = process.env.TZ;
+afterAll(() => {
+  process.env.TZ = zone;
+});
+
+test("dates without an offset are UTC in any server zone", () => {
+  for (const tz of ["UTC", "America/New_York", "Asia/Tokyo"]) {
+    process.env.TZ = tz;
+    expect(parseDate("2024-01-01")?.toISOString()).toBe(
+      "2024-01-01T00:00:00.000Z"
+    );
+    expect(parseDate("2024-01-01 10:00")?.toISOString()).toBe(
+      "2024-01-01T10:00:00.000Z"
+    );
+    expect(parseDate("1/5/2024 10:30 PM")?.toISOString()).toBe(
+      "2024-01-05T22:30:00.000Z"
+    );
+  }
+});
+
+test("explicit offsets are kept", () => {
+  process.env.TZ = "Asia/Tokyo";
+  expect(parseDate("2024-01-01T10:00:00+02:00")?.toISOString()).toBe(
+    "2024-01-01T08:00:00.000Z"
+  );
+  expect(parseDate("Mon, 01 Jan 2024 23:30:00 GMT")?.toISOString()).toBe(
+    "2024-01-01T23:30:00.000Z"
+  );
+});
+
+test("unparseable text gives null", () => {
+  expect(parseDate("soon")).toBeNull();
+});
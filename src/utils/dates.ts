@@ -0,0 +1,28 @@
+// Dates and times without an offset are read as UTC, whatever zone the
+// server runs in, so "2024-01-01" and "2024-01-01 10:00" name the same day.
+// Strings with an explicit offset (or Z, GMT, UTC) keep it.
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EXPLICIT_ZONE =
+  /(\d:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}(:?\d{2})?)|\b(GMT|UTC)([+-]\d{2}:?\d{2})?)$/i;
+
+export function parseDate(value: string): Date | null {
+  const text = value.trim();
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  // JS already reads date-only ISO strings as UTC midnight.
+  if (ISO_DATE.test(text) || EXPLICIT_ZONE.test(text)) return date;
+
+  // Anything else was read in local time; keep the fields and call them UTC.
+  return new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds()
+    )
+  );
+}
@@ -1,13 +1,24 @@
 import { SUCCESS_CODES } from "../constants";
-import type { IRoute } from "../types";
+import type { IRoute, RouteAuthorizer, RouteDefinition } from "../types";
+import { validateRequest } from "./validation";
 
 export const CORE_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-API-Key, If-Match, If-None-Match, If-Modified-Since",
+  "Access-Control-Expose-Headers":
+    "ETag, Last-Modified, Retry-After, Content-Disposition",
   "Content-Type": "application/json",
 };
 
+// `Retry-After` for exceptions that carry one (e.g. a saturated quota queue).
+export function errorHeaders(error: any): Record<string, string> {
+  return error?.retryAfter !== undefined
+    ? { "Retry-After": String(error.retryAfter) }
+    : {};
+}
+
 export function jsonResponse(body: any, init?: ResponseInit): Response {
   const headers = {
     ...(init?.headers as Record<string, string>),
@@ -17,6 +28,42 @@ export function jsonResponse(body: any, init?: ResponseInit): Response {
   return new Response(JSON.stringify(body), { status, headers });
 }
 
+// True when a conditional GET already holds the current representation.
+// If-None-Match wins over If-Modified-Since, as in RFC 9110.
+export function isNotModified(
+  req: Request,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch) {
+    const tags = ifNoneMatch.split(",").map((tag) => tag.trim());
+    return tags.some((tag) => tag === "*" || tag.replace(/^W\//, "") === etag);
+  }
+  const since = Date.parse(req.headers.get("If-Modified-Since") ?? "");
+  return !Number.isNaN(since) && lastModified.getTime() <= since;
+}
+
+// Non-JSON body served as a download. The plain `filename` is an ASCII
+// fallback; `filename*` carries the exact (UTF-8) name.
+export function fileResponse(
+  body: string | Uint8Array | ReadableStream,
+  contentType: string,
+  filename: string,
+  init?: ResponseInit
+): Response {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const headers = {
+    ...(init?.headers as Record<string, string>),
+    ...CORE_HEADERS,
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+      filename
+    )}`,
+  };
+  return new Response(body, { status: init?.status ?? 200, headers });
+}
+
 function extractPathParams(
   pattern: string,
   path: string
@@ -42,30 +89,45 @@ function extractPathParams(
   return params;
 }
 
+// Path params when the request is for this route, otherwise null.
+export function matchRoute(
+  definition: RouteDefinition,
+  req: Request,
+  url: URL
+): Record<string, string> | null {
+  if (req.method !== definition.method) {
+    return null;
+  }
+  return extractPathParams(definition.path, url.pathname);
+}
+
+// Runs the handler when the request matches the definition. Access is
+// checked first (`authorize` is null for routes that need no grant or check
+// it per item), so a caller without a grant gets a 403 before the query
+// string and body are checked against the declared schemas.
 export async function createRoute(
-  method: string,
-  path: string,
+  definition: RouteDefinition,
   req: Request,
   url: URL,
+  authorize: RouteAuthorizer | null,
   handler: (req: IRoute) => Promise<Response | Record<string, any>>
 ): Promise<Response | null> {
   try {
-    if (req.method !== method) {
-      return null;
-    }
-
-    const params = extractPathParams(path, url.pathname);
+    const params = matchRoute(definition, req, url);
     if (!params) {
       return null;
     }
 
-    const handlerResult = await handler({ params });
+    const route = { params };
+    await authorize?.(route);
+    await validateRequest(definition, req, url);
+
+    const handlerResult = await handler(route);
     if (handlerResult instanceof Response) {
       return handlerResult;
     }
 
-    const successCode =
-      SUCCESS_CODES[method as keyof typeof SUCCESS_CODES] || 200;
+    const successCode = SUCCESS_CODES[definition.method] || 200;
 
     return jsonResponse(handlerResult, { status: successCode });
   } catch (error: any) {
@@ -76,9 +138,11 @@ export async function createRoute(
       {
         message: errorMessage,
         status: errorStatus,
+        ...(error?.errors ? { errors: error.errors } : {}),
       },
       {
         status: errorStatus,
+        headers: errorHeaders(error),
       }
     );
   }
@@ -0,0 +1,114 @@
+import {
+  BadRequestException,
+  ValidationException,
+  type FieldError,
+} from "../common/exceptions";
+import { validateSchema, type JsonSchema } from "../common/schema";
+import type { ParameterDefinition, RouteDefinition } from "../types";
+
+// Query values arrive as strings; turn them into the JSON value the schema
+// describes. Booleans and enums ignore case, as the handlers always have.
+// Returns undefined when the string can't be read as that type.
+function coerceQueryValue(schema: JsonSchema, raw: string): any {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("integer") || types.includes("number")) {
+    const value = Number(raw);
+    return raw.trim() !== "" && Number.isFinite(value) ? value : undefined;
+  }
+  if (types.includes("boolean")) {
+    const value = raw.toLowerCase();
+    return value === "true" ? true : value === "false" ? false : undefined;
+  }
+  if (schema.enum) {
+    return (
+      schema.enum.find(
+        (option) =>
+          typeof option === "string" &&
+          option.toLowerCase() === raw.toLowerCase()
+      ) ?? raw
+    );
+  }
+  return raw;
+}
+
+function validateQuery(
+  name: string,
+  definition: ParameterDefinition,
+  raw: string | null
+): FieldError[] {
+  const field = `query.${name}`;
+  if (raw === null) {
+    return definition.required
+      ? [{ field, rule: "required", message: `${field} is required` }]
+      : [];
+  }
+
+  let value: any;
+  if (definition.json) {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return [
+        { field, rule: "json", message: `${field} must be URL-encoded JSON` },
+      ];
+    }
+  } else {
+    value = coerceQueryValue(definition.schema, raw);
+    if (value === undefined) {
+      const type = definition.schema.type;
+      return [
+        {
+          field,
+          rule: "type",
+          message: `${field} must be of type ${
+            Array.isArray(type) ? type.join(" or ") : type
+          }`,
+        },
+      ];
+    }
+  }
+  return validateSchema(definition.schema, value, field);
+}
+
+async function validateBody(
+  definition: RouteDefinition,
+  req: Request
+): Promise<FieldError[]> {
+  const body = definition.body;
+  const contentTypes = body?.contentTypes ?? ["application/json"];
+  if (!body || !contentTypes.includes("application/json")) return [];
+
+  // Read a clone so the handler can still consume the original stream.
+  const text = await req.clone().text();
+  if (!text.trim()) {
+    return body.required
+      ? [{ field: "body", rule: "required", message: "body is required" }]
+      : [];
+  }
+
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new BadRequestException("Request body must be valid JSON");
+  }
+  return validateSchema(body.schema, value, "body");
+}
+
+// Checks the query string and JSON body against the route definition and
+// throws a ValidationException listing every violation.
+export async function validateRequest(
+  definition: RouteDefinition,
+  req: Request,
+  url: URL
+): Promise<void> {
+  const errors: FieldError[] = [];
+  for (const [name, parameter] of Object.entries(definition.query ?? {})) {
+    errors.push(...validateQuery(name, parameter, url.searchParams.get(name)));
+  }
+  errors.push(...(await validateBody(definition, req)));
+
+  if (errors.length > 0) {
+    throw new ValidationException(errors, "Request validation failed");
+  }
+}